@@ -0,0 +1,43 @@
+/**
+ * Playwright browser pool — live state and manual recycle
+ * GET /api/browser-pool
+ * POST /api/browser-pool  { "action": "recycle" }
+ * POST requires header x-trafficlens-admin-key: $TRAFFICLENS_ADMIN_KEY
+ * State is this process's pool; standalone workers report theirs in /api/health
+ * (`workers[].stats.browserPool`) and are asked to recycle on their next heartbeat.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getBrowserPoolState, recycleBrowserPool } from '@/lib/browser-pool';
+import { isAdminRequest, unauthorizedResponse } from '@/lib/admin-auth';
+import { requestBrowserRecycle } from '@/lib/worker-heartbeats';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  return NextResponse.json(getBrowserPoolState(), {
+    headers: {
+      'Cache-Control': 'no-store',
+    },
+  });
+}
+
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse();
+  }
+
+  const body = await request.json().catch(() => ({}));
+  if (body?.action !== 'recycle') {
+    return NextResponse.json({ error: 'action must be "recycle"' }, { status: 400 });
+  }
+
+  // Busy browsers finish their current page first, then close
+  const retired = recycleBrowserPool('admin');
+  const workersSignalled = requestBrowserRecycle();
+  console.log(
+    `[BrowserPool] Admin recycle retired ${retired} browser(s), asked ${workersSignalled} worker(s)`
+  );
+
+  return NextResponse.json({ ok: true, retired, workersSignalled, pool: getBrowserPoolState() });
+}
@@ -0,0 +1,36 @@
+/**
+ * Adaptive worker controller — current settings and the decision audit log
+ * GET /api/controller?limit=50
+ *
+ * `state` is this process's controller; with TL_WORKER_MODE=external the worker's live
+ * settings are in /api/health (`workers[].stats.controller`), its decisions in `decisions`.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getControllerDecisions, getControllerState } from '@/lib/adaptive-controller';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const limit = parseInt(request.nextUrl.searchParams.get('limit') || '50', 10);
+
+  try {
+    return NextResponse.json(
+      {
+        state: getControllerState(),
+        decisions: getControllerDecisions(Number.isFinite(limit) ? limit : 50),
+      },
+      {
+        headers: {
+          'Cache-Control': 'no-store',
+        },
+      }
+    );
+  } catch (error) {
+    console.error('Controller API error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * API route for a domain's top organic keywords
+ * GET /api/domains/example.com/keywords?month=2025-01
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { normalizeDomain, isValidDomain } from '@/lib/domain-utils';
+import { getKeywords } from '@/lib/db';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ domain: string }> }
+) {
+  try {
+    const { domain: rawDomain } = await params;
+    const domain = normalizeDomain(decodeURIComponent(rawDomain));
+
+    if (!isValidDomain(domain)) {
+      return NextResponse.json(
+        { error: 'Invalid domain' },
+        { status: 400 }
+      );
+    }
+
+    const month = request.nextUrl.searchParams.get('month');
+    if (month && !/^\d{4}-\d{2}$/.test(month)) {
+      return NextResponse.json(
+        { error: 'month must be in YYYY-MM format' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(getKeywords(domain, month || undefined));
+  } catch (error) {
+    console.error('Keywords API error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
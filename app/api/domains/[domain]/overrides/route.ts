@@ -0,0 +1,171 @@
+/**
+ * API route for analyst overrides of a domain's metrics
+ * GET    /api/domains/example.com/overrides
+ * PUT    /api/domains/example.com/overrides   { monthYear?, monthlyVisits?, ..., note?, author? }
+ * DELETE /api/domains/example.com/overrides?month=2025-01
+ *
+ * PUT/DELETE require header x-trafficlens-admin-key: $TRAFFICLENS_ADMIN_KEY
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { normalizeDomain, isValidDomain } from '@/lib/domain-utils';
+import {
+  getTrafficOverrides,
+  upsertTrafficOverride,
+  deleteTrafficOverride,
+  getCurrentMonth,
+} from '@/lib/db';
+import { isAdminRequest, unauthorizedResponse } from '@/lib/admin-auth';
+
+type RouteContext = { params: Promise<{ domain: string }> };
+
+const MONTH_PATTERN = /^\d{4}-\d{2}$/;
+const MAX_NOTE_LENGTH = 2000;
+
+async function resolveDomain(context: RouteContext): Promise<string | null> {
+  const { domain: rawDomain } = await context.params;
+  const domain = normalizeDomain(decodeURIComponent(rawDomain));
+  return isValidDomain(domain) ? domain : null;
+}
+
+/**
+ * null/undefined/"" → null; anything else must be a non-negative number
+ */
+function parseMetric(value: unknown, name: string, max?: number): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < 0 || (max !== undefined && number > max)) {
+    throw new Error(`${name} must be a number${max !== undefined ? ` between 0 and ${max}` : ' ≥ 0'}`);
+  }
+  return number;
+}
+
+function parseOptionalText(value: unknown, name: string, maxLength: number): string | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== 'string') throw new Error(`${name} must be a string`);
+  const trimmed = value.trim();
+  if (trimmed.length > maxLength) throw new Error(`${name} must be at most ${maxLength} characters`);
+  return trimmed || null;
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const domain = await resolveDomain(context);
+    if (!domain) {
+      return NextResponse.json({ error: 'Invalid domain' }, { status: 400 });
+    }
+
+    return NextResponse.json({ domain, overrides: getTrafficOverrides(domain) });
+  } catch (error) {
+    console.error('Overrides API error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest, context: RouteContext) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const domain = await resolveDomain(context);
+    if (!domain) {
+      return NextResponse.json({ error: 'Invalid domain' }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ error: 'JSON body required' }, { status: 400 });
+    }
+
+    const monthYear = body.monthYear || getCurrentMonth();
+    if (!MONTH_PATTERN.test(monthYear)) {
+      return NextResponse.json(
+        { error: 'monthYear must be in YYYY-MM format' },
+        { status: 400 }
+      );
+    }
+
+    let override;
+    try {
+      const visits = parseMetric(body.monthlyVisits, 'monthlyVisits');
+      const duration = parseMetric(body.avgSessionDurationSeconds, 'avgSessionDurationSeconds');
+      const rank = parseMetric(body.globalRank, 'globalRank');
+      override = {
+        domain,
+        monthYear,
+        monthlyVisits: visits === null ? null : Math.round(visits),
+        avgSessionDurationSeconds: duration === null ? null : Math.round(duration),
+        bounceRate: parseMetric(body.bounceRate, 'bounceRate', 100),
+        pagesPerVisit: parseMetric(body.pagesPerVisit, 'pagesPerVisit'),
+        globalRank: rank === null ? null : Math.round(rank),
+        note: parseOptionalText(body.note, 'note', MAX_NOTE_LENGTH),
+        author: parseOptionalText(body.author, 'author', 200),
+      };
+    } catch (validationError) {
+      return NextResponse.json(
+        { error: validationError instanceof Error ? validationError.message : 'Invalid override' },
+        { status: 400 }
+      );
+    }
+
+    const hasContent =
+      override.monthlyVisits !== null ||
+      override.avgSessionDurationSeconds !== null ||
+      override.bounceRate !== null ||
+      override.pagesPerVisit !== null ||
+      override.globalRank !== null ||
+      override.note !== null;
+    if (!hasContent) {
+      return NextResponse.json(
+        { error: 'Provide at least one metric or a note' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ domain, override: upsertTrafficOverride(override) });
+  } catch (error) {
+    console.error('Overrides API error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const domain = await resolveDomain(context);
+    if (!domain) {
+      return NextResponse.json({ error: 'Invalid domain' }, { status: 400 });
+    }
+
+    const month = request.nextUrl.searchParams.get('month');
+    if (!month || !MONTH_PATTERN.test(month)) {
+      return NextResponse.json(
+        { error: 'month query parameter required (YYYY-MM)' },
+        { status: 400 }
+      );
+    }
+
+    const deleted = deleteTrafficOverride(domain, month);
+    if (!deleted) {
+      return NextResponse.json({ error: 'Override not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ domain, monthYear: month, deleted: true });
+  } catch (error) {
+    console.error('Overrides API error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
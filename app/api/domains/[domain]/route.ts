@@ -0,0 +1,58 @@
+/**
+ * API route for a single domain's stored profile
+ * GET /api/domains/example.com
+ *
+ * Returns latest traffic, WHOIS profile and visit history without scraping
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { normalizeDomain, isValidDomain } from '@/lib/domain-utils';
+import {
+  getLatestTrafficDataBatch,
+  getDomainProfile,
+  getHistoricalData,
+  calculateGrowthRate,
+} from '@/lib/db';
+import { applyVisitEstimates } from '@/lib/rank-estimator';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ domain: string }> }
+) {
+  try {
+    const { domain: rawDomain } = await params;
+    const domain = normalizeDomain(decodeURIComponent(rawDomain));
+
+    if (!isValidDomain(domain)) {
+      return NextResponse.json(
+        { error: 'Invalid domain' },
+        { status: 400 }
+      );
+    }
+
+    const stored = getLatestTrafficDataBatch([domain]).get(domain) || null;
+    const latest = stored ? applyVisitEstimates([stored])[0] : null;
+    const profile = getDomainProfile(domain);
+
+    if (!latest && !profile) {
+      return NextResponse.json(
+        { error: 'Domain not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      domain,
+      latest,
+      profile,
+      growth: calculateGrowthRate(domain),
+      historical: getHistoricalData(domain, 12),
+    });
+  } catch (error) {
+    console.error('Domain API error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
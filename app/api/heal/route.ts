@@ -7,6 +7,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { purgeIncompleteTrafficCache, storeTrafficData } from '@/lib/db';
 import { scrapeTrafficData } from '@/lib/scraper';
+import { isAdminRequest, unauthorizedResponse } from '@/lib/admin-auth';
+import { runScheduled } from '@/lib/scrape-scheduler';
 
 export const maxDuration = 300;
 
@@ -15,23 +17,18 @@ const CANARY_DOMAINS = (process.env.TRAFFICLENS_CANARY_DOMAINS || 'threads.com,g
   .map((d) => d.trim())
   .filter(Boolean);
 
-function isAuthorized(request: NextRequest): boolean {
-  const expected = process.env.TRAFFICLENS_ADMIN_KEY;
-  if (!expected) return false;
-  const provided = request.headers.get('x-trafficlens-admin-key');
-  return provided === expected;
-}
-
 export async function POST(request: NextRequest) {
-  if (!isAuthorized(request)) {
-    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse();
   }
 
   try {
     const purged = purgeIncompleteTrafficCache();
     console.log(`[Heal] Purged ${purged} incomplete cache rows`);
 
-    const warmed = await scrapeTrafficData(CANARY_DOMAINS.slice(0, 3), false);
+    const warmed = await runScheduled('maintenance', () =>
+      scrapeTrafficData(CANARY_DOMAINS.slice(0, 3), false)
+    );
 
     for (const row of warmed) {
       if (row.domain) storeTrafficData(row);
@@ -1,18 +1,52 @@
 /**
  * Lightweight liveness probe for Railway / uptime monitors.
  * GET /api/health — no Playwright, no scrape, no admin auth.
+ * Includes the in-memory scrape lane counters (lib/scrape-scheduler.ts) and circuit
+ * breakers (lib/circuit-breaker.ts); `degraded` is true while any breaker is open,
+ * the browser pool can't launch Chromium or no queue worker is beating.
+ * `singleFlight` counts lookups that joined an identical one already in flight;
+ * `browserPool` (lib/browser-pool.ts) is what playwright-health-cron.ts watches.
+ * `workers` lists queue worker heartbeats; with TL_WORKER_MODE=external the scraping
+ * state above belongs to this web process only, so check `workers[].stats` too.
  */
 
 import { NextResponse } from 'next/server';
+import { getSchedulerState } from '@/lib/scrape-scheduler';
+import { getCircuitStates } from '@/lib/circuit-breaker';
+import { getSingleFlightStats } from '@/lib/single-flight';
+import { getBrowserPoolState } from '@/lib/browser-pool';
+import { WORKER_MODE } from '@/lib/queue-worker';
+import { getWorkerHeartbeats, WorkerHeartbeat } from '@/lib/worker-heartbeats';
 
 export const dynamic = 'force-dynamic';
 
 export async function GET() {
+  const circuits = getCircuitStates();
+  const browserPool = getBrowserPoolState();
+  let workers: WorkerHeartbeat[] = [];
+  try {
+    workers = getWorkerHeartbeats();
+  } catch (error) {
+    console.error('[Health] Worker heartbeats unavailable:', error);
+  }
+  const liveWorkers = workers.filter(worker => worker.alive).length;
+
   return NextResponse.json(
     {
       ok: true,
       service: 'trafficlens',
       timestamp: new Date().toISOString(),
+      degraded:
+        circuits.some(circuit => circuit.state === 'open') ||
+        !browserPool.healthy ||
+        liveWorkers === 0,
+      scheduler: getSchedulerState(),
+      circuits,
+      singleFlight: getSingleFlightStats(),
+      browserPool,
+      workerMode: WORKER_MODE,
+      liveWorkers,
+      workers,
     },
     {
       status: 200,
@@ -0,0 +1,72 @@
+/**
+ * API route to pause, resume or cancel a scrape job
+ * POST /api/jobs/<jobId>/control   { action: 'pause' | 'resume' | 'cancel' }
+ *
+ * Pause and cancel abort in-flight batches (their domains go back to the queue,
+ * or are cancelled); domains already scraped stay stored.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  cancelScrapeJob,
+  getJobProgress,
+  getScrapeJob,
+  pauseScrapeJob,
+  resumeScrapeJob,
+} from '@/lib/scrape-queue';
+import { abortJobBatches, startQueueWorker } from '@/lib/queue-worker';
+import { notifyJobUpdate } from '@/lib/job-events';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const ACTIONS = ['pause', 'resume', 'cancel'] as const;
+type JobAction = (typeof ACTIONS)[number];
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+
+    const body = await request.json().catch(() => null);
+    const action = body?.action as JobAction;
+    if (!ACTIONS.includes(action)) {
+      return NextResponse.json(
+        { error: `action must be one of: ${ACTIONS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const before = getScrapeJob(id);
+    if (!before) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    const after =
+      action === 'pause'
+        ? pauseScrapeJob(id)
+        : action === 'resume'
+          ? resumeScrapeJob(id)
+          : cancelScrapeJob(id);
+
+    if (!after || after.status === before.status) {
+      return NextResponse.json(
+        { error: `Cannot ${action} a job that is ${before.status}` },
+        { status: 409 }
+      );
+    }
+
+    if (action === 'resume') {
+      startQueueWorker();
+    } else {
+      abortJobBatches(id);
+    }
+    notifyJobUpdate(id);
+
+    return NextResponse.json({ job: getJobProgress(id) });
+  } catch (error) {
+    console.error('Job control API error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
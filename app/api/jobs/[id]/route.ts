@@ -0,0 +1,49 @@
+/**
+ * API route for scrape job progress
+ * GET /api/jobs/<jobId>
+ * GET /api/jobs/<jobId>?since=2025-01-01T00:00:00.000Z   (only results settled since then)
+ *
+ * Returns totals, per-batch status/timing and the stored rows of finished domains.
+ * Pass the previous response's `serverTime` as `since` to poll incrementally.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobProgress, getSettledResults } from '@/lib/scrape-queue';
+import { applyVisitEstimates } from '@/lib/rank-estimator';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const serverTime = new Date().toISOString();
+
+    const job = getJobProgress(id);
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    const since = request.nextUrl.searchParams.get('since');
+    if (since && Number.isNaN(Date.parse(since))) {
+      return NextResponse.json(
+        { error: 'since must be an ISO timestamp' },
+        { status: 400 }
+      );
+    }
+
+    const results = getSettledResults(id, since);
+
+    return NextResponse.json({
+      job,
+      // Rank-only rows get a labelled visits estimate (response only, never cached)
+      results: applyVisitEstimates(results),
+      serverTime,
+    });
+  } catch (error) {
+    console.error('Jobs API error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Server-Sent Events stream for a scrape job
+ * GET /api/jobs/<jobId>/stream
+ *
+ * Events:
+ *   result   — one TrafficData row as soon as its domain is settled
+ *   progress — JobProgress after every batch (and once on connect)
+ *   done     — final JobProgress (completed or cancelled); the stream then closes
+ *
+ * Rows already settled before the browser connected are sent first.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobProgress, getScrapeJob, getSettledResults } from '@/lib/scrape-queue';
+import { subscribeJobUpdates } from '@/lib/job-events';
+import { applyVisitEstimates } from '@/lib/rank-estimator';
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/** Re-check the DB this often in case the worker runs in another process (also keeps proxies from idling out) */
+const FALLBACK_TICK_MS = 5000;
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  const { id } = await context.params;
+
+  if (!getScrapeJob(id)) {
+    return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+  }
+
+  const encoder = new TextEncoder();
+  let stop = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let since: string | null = null;
+      const sent = new Set<string>(); // `since` is inclusive, so a row can come back once more
+      let closed = false;
+      let unsubscribe = () => {};
+      let timer: ReturnType<typeof setInterval> | undefined;
+
+      const send = (event: string, data: unknown) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        if (timer) clearInterval(timer);
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+
+      // Send everything settled since the last flush, then the current progress
+      const flush = () => {
+        if (closed) return;
+        try {
+          const serverTime = new Date().toISOString();
+          const progress = getJobProgress(id);
+          if (!progress) {
+            send('error', { error: 'Job not found' });
+            close();
+            return;
+          }
+
+          // Rank-only rows get a labelled visits estimate (response only, never cached)
+          const rows = getSettledResults(id, since).filter(row => !sent.has(row.domain));
+          for (const row of applyVisitEstimates(rows)) {
+            sent.add(row.domain);
+            send('result', row);
+          }
+          since = serverTime;
+
+          if (progress.status === 'completed' || progress.status === 'cancelled') {
+            send('done', progress);
+            close();
+          } else {
+            send('progress', progress);
+          }
+        } catch (error) {
+          console.error('[Jobs Stream] Flush failed:', error);
+        }
+      };
+
+      stop = close;
+      unsubscribe = subscribeJobUpdates(id, flush);
+      timer = setInterval(flush, FALLBACK_TICK_MS);
+      request.signal.addEventListener('abort', close);
+      flush();
+    },
+    cancel() {
+      stop();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
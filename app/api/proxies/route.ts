@@ -0,0 +1,17 @@
+/**
+ * Proxy pool — configured proxies with health scores, quarantine and breaker state
+ * GET /api/proxies
+ */
+
+import { NextResponse } from 'next/server';
+import { getProxyPoolState } from '@/lib/proxy-pool';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  return NextResponse.json({ proxies: getProxyPoolState() }, {
+    headers: {
+      'Cache-Control': 'no-store',
+    },
+  });
+}
@@ -0,0 +1,17 @@
+/**
+ * Shared upstream rate limiter — configuration and live bucket state
+ * GET /api/rate-limits
+ */
+
+import { NextResponse } from 'next/server';
+import { getRateLimiterState } from '@/lib/rate-limiter';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  return NextResponse.json(getRateLimiterState(), {
+    headers: {
+      'Cache-Control': 'no-store',
+    },
+  });
+}
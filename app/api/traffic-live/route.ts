@@ -1,6 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { fetchTrafficCvDomain } from '@/lib/trafficcv-fetch';
-import { storeTrafficData, getLatestTrafficData, isDataFresh } from '@/lib/db';
+import { fetchProxyProvider } from '@/lib/providers/fetch-proxy';
+import { runScheduled } from '@/lib/scrape-scheduler';
+import {
+  storeTrafficDataWithHistory,
+  getLatestTrafficData,
+  isDataFresh,
+  applyTrafficOverrides,
+} from '@/lib/db';
 
 export const maxDuration = 300;
 
@@ -18,15 +25,19 @@ export async function GET(request: NextRequest) {
       return NextResponse.json(cachedData);
     }
 
-    const result = await fetchTrafficCvDomain(domain);
+    // Interactive lane: never waits behind queued bulk jobs
+    const fetched = await runScheduled('interactive', () => fetchTrafficCvDomain(domain));
+    const result = { ...fetched, provider: fetchProxyProvider.name };
 
     if (result.monthlyVisits !== null && result.monthlyVisits !== undefined) {
       try {
-        storeTrafficData(result);
+        storeTrafficDataWithHistory(result);
       } catch (dbErr) {
         console.error('[Live Request] DB storage error:', dbErr);
       }
-      return NextResponse.json(result);
+      // Manual overrides beat fresh scrapes, same as POST /api/traffic
+      const [withOverrides] = applyTrafficOverrides([result]);
+      return NextResponse.json(withOverrides);
     }
 
     return NextResponse.json(
@@ -2,27 +2,32 @@
  * API route for bulk traffic checking
  * POST /api/traffic
  * 
- * Returns cached results immediately, then scrapes missing domains in background
+ * Returns cached results immediately; large sets of missing domains are queued
+ * as a durable scrape job (scrape_jobs / scrape_tasks) for the queue worker.
+ * With TL_WORKER_MODE=external nothing is scraped here — every miss is queued.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { normalizeDomains, chunkArray } from '@/lib/domain-utils';
-import { scrapeTrafficData } from '@/lib/scraper';
-import { fetchTrafficCvBatch, isCompleteTrafficResult } from '@/lib/trafficcv-fetch';
-import { retryScrapeTrafficData, backgroundRetryFailedDomains } from '@/lib/retry-scraper';
+import { getProviderChain, runProviderChain } from '@/lib/providers';
+import { isCompleteTrafficResult } from '@/lib/trafficcv-fetch';
+import { isCircuitOpenError } from '@/lib/circuit-breaker';
 import { TrafficData } from '@/types';
 import { trafficCache } from '@/lib/cache';
 import {
   getLatestTrafficDataBatch,
-  storeTrafficData,
-  storeHistoricalTrafficData,
+  storeTrafficDataWithHistory,
   isDataFresh,
   getHistoricalData,
   calculateTrends,
   getCurrentMonth,
   storeTrafficError,
+  applyTrafficOverrides,
 } from '@/lib/db';
 import { logUsage } from '@/lib/usage-tracker';
+import { applyVisitEstimates } from '@/lib/rank-estimator';
+import { createScrapeJob, getQueuedDomains } from '@/lib/scrape-queue';
+import { startQueueWorker, QUEUE_BATCH_SIZE, WORKER_MODE } from '@/lib/queue-worker';
 
 export const maxDuration = 300; // 5 minutes for Vercel
 
@@ -41,199 +46,16 @@ interface TrafficResponse {
     cacheMisses: number;
     errors: string[];
     backgroundScraping?: boolean; // Indicates if background scraping is happening
+    jobId?: string; // Poll GET /api/jobs/:id for progress and results
   };
 }
 
-/**
- * Rate limiting: delay between batch *groups* (parallel processor chunks).
- * Env TL_BATCH_DELAY_MS — on CPX31 / scraper-HQ raise to 15000–20000 if CPU pegged at 400%.
- */
-const BATCH_DELAY_MS = Math.max(
-  5000,
-  parseInt(process.env.TL_BATCH_DELAY_MS || '12000', 10)
-);
-
-/**
- * Domains per Playwright scrape call (bulk traffic.cv URL). 2–3 is efficient; 1 lowers peak RAM/CPU per step.
- * Env TL_BG_DOMAIN_CHUNK
- */
-const BG_DOMAIN_CHUNK = 10;
-
-/**
- * Extra pause after each background batch (ms). Env TL_INTER_BATCH_SLEEP_MS — use 3000–8000 on busy VPS.
- */
-const INTER_BATCH_SLEEP_MS = Math.max(
-  0,
-  parseInt(process.env.TL_INTER_BATCH_SLEEP_MS || '4000', 10)
-);
-
-/**
- * Parallel Playwright batches. Default 1 on Railway to avoid OOM killing the whole process.
- * Override with TL_PARALLEL_BATCHES (e.g. 3 on ScrapeHQ / CPX31).
- */
-const PARALLEL_BATCHES = Math.max(
-  1,
-  parseInt(
-    process.env.TL_PARALLEL_BATCHES ||
-      (process.env.RAILWAY_ENVIRONMENT ? '1' : '3'),
-    10
-  )
-);
-
 /** Flight-chunk fetch is fast enough to block for typical UI batches (≤10 domains). */
 const SYNC_SCRAPE_LIMIT = Math.min(
   10,
   Math.max(1, parseInt(process.env.TL_SYNC_SCRAPE_LIMIT || '10', 10))
 );
 
-function enqueueBackgroundScrape(task: () => Promise<void>): void {
-  // Parallel execution pool (Bypassed serialization for Extreme Acceleration)
-  task().catch((err) => {
-    console.error('[Background Task] Unhandled:', err);
-  });
-}
-
-function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
-}
-
-interface BatchResult {
-  success: boolean;
-  results: TrafficData[];
-  error?: string;
-}
-
-/**
- * Process batches in parallel with a limit
- */
-async function processBatchesInParallel<T>(
-  batches: T[][],
-  processor: (batch: T[], index: number) => Promise<BatchResult>,
-  parallelLimit: number
-): Promise<BatchResult[]> {
-  const results: BatchResult[] = [];
-
-  // Process batches in chunks of parallelLimit
-  for (let i = 0; i < batches.length; i += parallelLimit) {
-    const chunk = batches.slice(i, i + parallelLimit);
-    const chunkPromises = chunk.map((batch, chunkIndex) => {
-      const batchIndex = i + chunkIndex;
-      return processor(batch, batchIndex).catch(error => {
-        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-        return {
-          success: false,
-          error: errorMsg,
-          results: []
-        };
-      });
-    });
-
-    // Wait for all batches in this chunk to complete
-    const chunkResults = await Promise.all(chunkPromises);
-    results.push(...chunkResults);
-
-    // Small delay between chunks to avoid overwhelming the server
-    if (i + parallelLimit < batches.length) {
-      await sleep(BATCH_DELAY_MS);
-    }
-  }
-
-  return results;
-}
-
-/**
- * Background scraping function (doesn't block response)
- */
-async function scrapeInBackground(
-  cacheMisses: string[],
-  domainOrderMap: Map<string, number>,
-  originalDomainMap: Map<string, string>
-): Promise<void> {
-  try {
-    if (cacheMisses.length === 0) return;
-
-    console.log(`[Background] Starting scrape for ${cacheMisses.length} domains...`);
-
-    const batches = chunkArray(cacheMisses, BG_DOMAIN_CHUNK);
-    const allResults: TrafficData[] = [];
-
-    const batchProcessor = async (batch: string[], batchIndex: number) => {
-      console.log(`[Background] Processing batch ${batchIndex + 1}/${batches.length} (${batch.length} domains)`);
-      try {
-        const batchResults = await scrapeTrafficData(batch, false, false);
-
-        // Store results in database (including errors)
-        for (const result of batchResults) {
-          // Verify we have minimal valid data to store
-          if (result.domain) {
-            storeTrafficData(result);
-
-            // Store historical months if available
-            if (!result.error && 'historicalMonths' in result && result.historicalMonths && Array.isArray(result.historicalMonths)) {
-              storeHistoricalTrafficData(result.domain, result.historicalMonths, result);
-            }
-          }
-        }
-
-        if (INTER_BATCH_SLEEP_MS > 0) {
-          await sleep(INTER_BATCH_SLEEP_MS);
-        }
-
-        return {
-          success: true,
-          results: batchResults,
-        };
-      } catch (error) {
-        const errorMsg = error instanceof Error ? error.message : 'Unknown error';
-        console.error(`[Background] Batch ${batchIndex + 1} error:`, errorMsg);
-
-        // Critical: Store error state for all domains in this batch so frontend stops polling
-        try {
-          for (const domain of batch) {
-            storeTrafficError(domain, `Batch failed: ${errorMsg}`);
-          }
-        } catch (dbError) {
-          console.error('[Background] Failed to store batch error:', dbError);
-        }
-
-        return {
-          success: false,
-          error: errorMsg,
-          results: [],
-        };
-      }
-    };
-
-    // Process batches in parallel
-    const parallelResults = await processBatchesInParallel(
-      batches,
-      batchProcessor,
-      PARALLEL_BATCHES
-    );
-
-    // Collect all results
-    for (const result of parallelResults) {
-      if (result.results) {
-        allResults.push(...result.results);
-      }
-    }
-
-    // Retry failed domains in background
-    const failedDomains = allResults
-      .filter(r => r.error)
-      .map(r => r.domain);
-
-    if (failedDomains.length > 0) {
-      console.log(`[Background] Retrying ${failedDomains.length} failed domains...`);
-      backgroundRetryFailedDomains(failedDomains);
-    }
-
-    console.log(`[Background] Completed scraping ${allResults.length} domains`);
-  } catch (error) {
-    console.error('[Background] Scraping error:', error);
-  }
-}
-
 export async function POST(request: NextRequest) {
   try {
     const body: TrafficRequest = await request.json();
@@ -278,17 +100,7 @@ export async function POST(request: NextRequest) {
 
     // DRY RUN: Return mock data immediately
     if (dryRun) {
-      const mockResults: TrafficData[] = domains.map((domain) => ({
-        domain,
-        monthlyVisits: Math.floor(Math.random() * 1000000),
-        avgSessionDuration: '00:02:30',
-        avgSessionDurationSeconds: 150,
-        bounceRate: Math.random() * 100,
-        pagesPerVisit: Math.random() * 5 + 1,
-        checkedAt: new Date().toISOString(),
-        trafficSources: null,
-        error: null,
-      }));
+      const mockResults = await runProviderChain(domains, getProviderChain('mock'));
 
       return NextResponse.json({
         results: mockResults,
@@ -343,30 +155,24 @@ export async function POST(request: NextRequest) {
 
     let freshResults: TrafficData[] = [];
     let backgroundScraping = false;
+    let jobId: string | undefined;
 
-    // Sync path: flight-chunk fetch returns in seconds — no placeholder polling loop
-    if (cacheMisses.length > 0 && cacheMisses.length <= SYNC_SCRAPE_LIMIT) {
+    // Sync path: flight-chunk fetch returns in seconds — no placeholder polling loop.
+    // Skipped when scraping lives in the standalone worker; small lookups are queued ahead instead
+    const interactiveLookup = cacheMisses.length > 0 && cacheMisses.length <= SYNC_SCRAPE_LIMIT;
+    if (interactiveLookup && WORKER_MODE === 'embedded') {
       console.log(`[API] Sync scrape for ${cacheMisses.length} cache miss(es)`);
       const batches = chunkArray(cacheMisses, 10);
       for (const batch of batches) {
-        let batchResults = await fetchTrafficCvBatch(batch);
-        const completeRate =
-          batchResults.filter(isCompleteTrafficResult).length / batch.length;
-        if (completeRate < 0.5) {
-          batchResults = await scrapeTrafficData(batch, false);
-        }
+        // Per-domain fallback through TL_PROVIDER_CHAIN (fetch-proxy → playwright-bulk by default);
+        // the user is waiting, so this runs in the interactive lane ahead of queued jobs
+        const batchResults = await runProviderChain(batch, undefined, { priority: 'interactive' });
         for (const result of batchResults) {
           if (result.domain) {
             if (isCompleteTrafficResult(result)) {
-              storeTrafficData(result);
-              if (
-                !result.error &&
-                'historicalMonths' in result &&
-                Array.isArray(result.historicalMonths)
-              ) {
-                storeHistoricalTrafficData(result.domain, result.historicalMonths, result);
-              }
-            } else if (result.error) {
+              storeTrafficDataWithHistory(result);
+            } else if (result.error && !isCircuitOpenError(result.error)) {
+              // Open breaker says nothing about the domain — don't cache it as failed
               storeTrafficError(result.domain, result.error);
             }
           }
@@ -420,8 +226,12 @@ export async function POST(request: NextRequest) {
       backgroundScraping = placeholderResults.length > 0;
     }
 
-    // Combine cached + sync-scraped + placeholders
-    const immediateResults = [...cachedResults, ...freshResults, ...placeholderResults];
+    // Combine cached + sync-scraped + placeholders (manual overrides beat fresh scrapes too)
+    const immediateResults = [
+      ...cachedResults,
+      ...applyTrafficOverrides(freshResults),
+      ...placeholderResults,
+    ];
 
     // Sort results to match original domain order (preserves Google Sheet/CSV order)
     immediateResults.sort((a, b) => {
@@ -436,16 +246,26 @@ export async function POST(request: NextRequest) {
       return orderA - orderB;
     });
 
-    // Start background scraping for ALL cache misses (non-blocking)
-    // This is fire-and-forget - response returns immediately
+    // Queue deferred domains as a durable job; the worker survives restarts and resumes it.
+    // Domains already queued by someone else are linked to that task rather than scraped
+    // twice, so this job still reports them as they finish.
     if (backgroundScraping) {
       const deferred = cacheMisses.filter((domain) =>
         placeholderResults.some((p) => p.domain === domain)
       );
+      const alreadyQueued = getQueuedDomains(deferred);
+      if (deferred.length > 0) {
+        const job = createScrapeJob(deferred, {
+          batchSize: QUEUE_BATCH_SIZE,
+          priority: interactiveLookup ? 'interactive' : undefined,
+        });
+        jobId = job.id;
+        console.log(`[API] Queued job ${job.id} (${deferred.length} domains)`);
+      }
       console.log(
-        `[API] ${cacheHits} cached, ${freshResults.length} sync-scraped, ${deferred.length} deferred to background`
+        `[API] ${cacheHits} cached, ${freshResults.length} sync-scraped, ${deferred.length} deferred to background (${alreadyQueued.size} already queued)`
       );
-      enqueueBackgroundScrape(() => scrapeInBackground(deferred, domainOrderMap, originalDomainMap));
+      startQueueWorker();
     } else if (cacheMisses.length === 0) {
       console.log(`[API] All ${cacheHits} domains served from cache - instant response`);
     } else {
@@ -472,7 +292,8 @@ export async function POST(request: NextRequest) {
 
     // Return immediate results (cached + placeholders)
     const response: TrafficResponse = {
-      results: immediateResults,
+      // Rank-only rows get a labelled visits estimate (response only, never cached)
+      results: applyVisitEstimates(immediateResults),
       metadata: {
         totalDomains: domains.length,
         batchesProcessed: Math.ceil(cacheMisses.length / 10),
@@ -480,6 +301,7 @@ export async function POST(request: NextRequest) {
         cacheMisses: cacheMisses.length,
         errors: [],
         backgroundScraping,
+        jobId,
       },
     };
 
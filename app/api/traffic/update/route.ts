@@ -8,6 +8,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { normalizeDomains } from '@/lib/domain-utils';
 import { getLatestTrafficDataBatch, isDataFresh } from '@/lib/db';
+import { applyVisitEstimates } from '@/lib/rank-estimator';
 import { TrafficData } from '@/types';
 
 export async function GET(request: NextRequest) {
@@ -72,7 +73,7 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    return NextResponse.json({ results });
+    return NextResponse.json({ results: applyVisitEstimates(results) });
   } catch (error) {
     console.error('Update API error:', error);
     return NextResponse.json(
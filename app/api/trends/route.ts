@@ -4,7 +4,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getHistoricalData, calculateTrends } from '@/lib/db';
+import { getHistoricalData, calculateTrends, getSourceMixHistory } from '@/lib/db';
 
 export async function GET(request: NextRequest) {
   try {
@@ -26,11 +26,15 @@ export async function GET(request: NextRequest) {
     // Calculate trends
     const trends = calculateTrends(domain);
 
+    // Source share per month (search/direct/social/...)
+    const sourceMix = getSourceMixHistory(domain, months);
+
     return NextResponse.json({
       domain,
       period,
       historical,
       trends,
+      sourceMix,
     });
   } catch (error) {
     console.error('Trends API error:', error);
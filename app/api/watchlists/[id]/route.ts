@@ -0,0 +1,94 @@
+/**
+ * API route for a single watchlist
+ * GET    /api/watchlists/<id>   watchlist + stored results (no scraping) + stale domains
+ * PATCH  /api/watchlists/<id>   { name?, domains?, owner?, tags? }
+ * DELETE /api/watchlists/<id>
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  deleteWatchlist,
+  getWatchlist,
+  getWatchlistResults,
+  parseWatchlistInput,
+  updateWatchlist,
+  WatchlistInput,
+  WatchlistNameTakenError,
+} from '@/lib/watchlists';
+import { applyVisitEstimates } from '@/lib/rank-estimator';
+
+export const dynamic = 'force-dynamic';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const watchlist = getWatchlist(id);
+    if (!watchlist) {
+      return NextResponse.json({ error: 'Watchlist not found' }, { status: 404 });
+    }
+
+    const { results, stale } = getWatchlistResults(watchlist);
+    return NextResponse.json({
+      watchlist,
+      // Rank-only rows get a labelled visits estimate (response only, never cached)
+      results: applyVisitEstimates(results),
+      stale,
+    });
+  } catch (error) {
+    console.error('Watchlist API error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const body = await request.json().catch(() => null);
+
+    let input: WatchlistInput;
+    try {
+      input = parseWatchlistInput(body, true);
+    } catch (validationError) {
+      return NextResponse.json(
+        { error: validationError instanceof Error ? validationError.message : 'Invalid watchlist' },
+        { status: 400 }
+      );
+    }
+
+    const watchlist = updateWatchlist(id, input);
+    if (!watchlist) {
+      return NextResponse.json({ error: 'Watchlist not found' }, { status: 404 });
+    }
+    return NextResponse.json({ watchlist });
+  } catch (error) {
+    if (error instanceof WatchlistNameTakenError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error('Watchlist API error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    if (!deleteWatchlist(id)) {
+      return NextResponse.json({ error: 'Watchlist not found' }, { status: 404 });
+    }
+    return NextResponse.json({ id, deleted: true });
+  } catch (error) {
+    console.error('Watchlist API error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
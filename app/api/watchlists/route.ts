@@ -0,0 +1,64 @@
+/**
+ * API route for named watchlists
+ * GET  /api/watchlists?owner=alice&tag=competitors
+ * POST /api/watchlists   { name, domains: string[] | "a.com\nb.com", owner?, tags? }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  createWatchlist,
+  getWatchlists,
+  parseWatchlistInput,
+  WatchlistInput,
+  WatchlistNameTakenError,
+} from '@/lib/watchlists';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    return NextResponse.json({
+      watchlists: getWatchlists({
+        owner: params.get('owner') || undefined,
+        tag: params.get('tag') || undefined,
+      }),
+    });
+  } catch (error) {
+    console.error('Watchlists API error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+
+    let input: WatchlistInput;
+    try {
+      input = parseWatchlistInput(body);
+    } catch (validationError) {
+      return NextResponse.json(
+        { error: validationError instanceof Error ? validationError.message : 'Invalid watchlist' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { watchlist: createWatchlist(input as Required<WatchlistInput>) },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof WatchlistNameTakenError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error('Watchlists API error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
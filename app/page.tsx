@@ -1,11 +1,21 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import TrafficTable from "@/components/TrafficTable";
 import ExportButtons from "@/components/ExportButtons";
+import WatchlistPicker from "@/components/WatchlistPicker";
 import { TrafficData } from "@/lib/types";
 import { normalizeTrafficResults } from "@/lib/normalize-traffic";
-import type { TrafficData as ApiTrafficData } from "@/types";
+import type { TrafficData as ApiTrafficData, JobProgress, Watchlist } from "@/types";
+
+function formatJobProgress(job: JobProgress): string {
+  const settled = job.totals.completed + job.totals.failed;
+  const batchesDone = job.batches.filter((batch) => batch.status === "completed").length;
+  const eta =
+    job.etaMs !== null ? ` · ~${Math.max(1, Math.round(job.etaMs / 60000))} min left` : "";
+  const state = job.status === "paused" ? "Paused" : "Processing…";
+  return `${state} ${settled}/${job.totals.domains} domains · batch ${batchesDone}/${job.batches.length}${eta}`;
+}
 
 export default function Home() {
   const [domains, setDomains] = useState("");
@@ -15,12 +25,31 @@ export default function Home() {
   const [dryRun, setDryRun] = useState(false);
   const [bypassCache, setBypassCache] = useState(false);
   const [progress, setProgress] = useState<string | null>(null);
+  const [activeJob, setActiveJob] = useState<{ id: string; status: JobProgress["status"] } | null>(null);
+  const [jobActionPending, setJobActionPending] = useState(false);
+  // The job whose stream or poll timer is live; events for any other job are dropped
+  const jobWatch = useRef<{
+    jobId: string | null;
+    source: EventSource | null;
+    timer: ReturnType<typeof setTimeout> | null;
+  }>({ jobId: null, source: null, timer: null });
+
+  const stopWatchingJob = () => {
+    const watch = jobWatch.current;
+    watch.source?.close();
+    if (watch.timer) clearTimeout(watch.timer);
+    jobWatch.current = { jobId: null, source: null, timer: null };
+  };
+
+  useEffect(() => stopWatchingJob, []);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    stopWatchingJob();
     setLoading(true);
     setError(null);
     setProgress(null);
+    setActiveJob(null);
 
     const domainList = domains
       .split(/[\n,]/)
@@ -61,7 +90,8 @@ export default function Home() {
         );
         setResults(normalizeTrafficResults(apiResults));
         setLoading(false);
-        pollForResults(domainList);
+        const jobId: string | undefined = data.metadata?.jobId;
+        if (jobId) streamJob(jobId);
       } else {
         setProgress(null);
         setResults(normalizeTrafficResults(apiResults));
@@ -74,52 +104,170 @@ export default function Home() {
     }
   };
 
-  const pollForResults = async (domainList: string[]) => {
-    const maxAttempts = 30;
-    let attempts = 0;
+  const mergeResults = (updates: TrafficData[]) => {
+    if (updates.length === 0) return;
+    const byDomain = new Map(updates.map((row) => [row.domain, row]));
+    setResults((prev) => prev.map((row) => byDomain.get(row.domain) ?? row));
+  };
+
+  const isFinished = (job: JobProgress) =>
+    job.status === "completed" || job.status === "cancelled";
 
-    const poll = async () => {
-      if (attempts >= maxAttempts) {
-        setProgress("Background scrape timed out — try bypass cache or retry.");
-        return;
+  const showJobProgress = (job: JobProgress) => {
+    setActiveJob({ id: job.id, status: job.status });
+    setProgress(formatJobProgress(job));
+  };
+
+  const finishJob = (job: JobProgress) => {
+    setActiveJob(null);
+    if (job.status === "cancelled") {
+      setProgress(
+        `Job cancelled — ${job.totals.completed} domain(s) finished before it stopped are kept.`
+      );
+      return;
+    }
+    setProgress(
+      `All domains processed (${job.totals.completed} succeeded, ${job.totals.failed} failed).`
+    );
+  };
+
+  const controlJob = async (action: "pause" | "resume" | "cancel") => {
+    if (!activeJob) return;
+    setJobActionPending(true);
+    try {
+      const response = await fetch(`/api/jobs/${activeJob.id}/control`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action }),
+      });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(body.error || `HTTP ${response.status}`);
+      }
+      const job = body.job as JobProgress;
+      if (isFinished(job)) {
+        finishJob(job);
+      } else {
+        showJobProgress(job);
       }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Job action failed");
+    } finally {
+      setJobActionPending(false);
+    }
+  };
 
-      attempts++;
+  const isWatching = (jobId: string) => jobWatch.current.jobId === jobId;
 
+  // Rows arrive over SSE as batches settle; falls back to polling if the stream breaks
+  const streamJob = (jobId: string) => {
+    stopWatchingJob();
+    jobWatch.current.jobId = jobId;
+    setActiveJob({ id: jobId, status: "queued" });
+
+    if (typeof EventSource === "undefined") {
+      pollJob(jobId);
+      return;
+    }
+
+    const source = new EventSource(`/api/jobs/${jobId}/stream`);
+    jobWatch.current.source = source;
+
+    source.addEventListener("result", (event) => {
+      if (!isWatching(jobId)) return;
+      const row = JSON.parse((event as MessageEvent).data) as ApiTrafficData;
+      mergeResults(normalizeTrafficResults([row]));
+    });
+    source.addEventListener("progress", (event) => {
+      if (!isWatching(jobId)) return;
+      showJobProgress(JSON.parse((event as MessageEvent).data) as JobProgress);
+    });
+    source.addEventListener("done", (event) => {
+      if (!isWatching(jobId)) return;
+      stopWatchingJob();
+      finishJob(JSON.parse((event as MessageEvent).data) as JobProgress);
+    });
+    source.onerror = () => {
+      source.close();
+      if (!isWatching(jobId)) return;
+      jobWatch.current.source = null;
+      pollJob(jobId);
+    };
+  };
+
+  // Job endpoint returns only rows settled since the previous poll — no attempt cap
+  const pollJob = (jobId: string) => {
+    let since: string | null = null;
+
+    const schedule = (delayMs: number) => {
+      if (isWatching(jobId)) jobWatch.current.timer = setTimeout(poll, delayMs);
+    };
+
+    const poll = async () => {
       try {
-        const response = await fetch("/api/traffic", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ domains: domainList, dryRun, bypassCache }),
-        });
-
-        if (response.ok) {
-          const data = await response.json();
-          const apiResults = (data.results || []) as ApiTrafficData[];
-          const normalized = normalizeTrafficResults(apiResults);
-          setResults(normalized);
-
-          const allComplete = normalized.every((r) => r.status !== "pending");
-
-          if (allComplete) {
-            setProgress("All domains processed.");
-            setLoading(false);
-          } else {
-            setProgress(
-              `Processing… (${attempts}/${maxAttempts})`
-            );
-            setTimeout(poll, 2000);
-          }
+        const query = since ? `?since=${encodeURIComponent(since)}` : "";
+        const response = await fetch(`/api/jobs/${jobId}${query}`);
+        // Superseded by a new job or cleared while the request was out
+        if (!isWatching(jobId)) return;
+        if (response.status === 404) {
+          setProgress("Background job not found — run again to re-queue.");
+          return;
         }
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+
+        const data = await response.json();
+        if (!isWatching(jobId)) return;
+        since = data.serverTime;
+        mergeResults(normalizeTrafficResults((data.results || []) as ApiTrafficData[]));
+
+        const job = data.job as JobProgress;
+        if (isFinished(job)) {
+          stopWatchingJob();
+          finishJob(job);
+          return;
+        }
+
+        showJobProgress(job);
+        schedule(2000);
       } catch {
-        setTimeout(poll, 2000);
+        schedule(5000);
       }
     };
 
-    setTimeout(poll, 2000);
+    schedule(2000);
+  };
+
+  // Stored rows only — Run analysis refreshes whatever is outdated
+  const handleWatchlistLoad = (
+    watchlist: Watchlist,
+    apiResults: ApiTrafficData[],
+    stale: string[]
+  ) => {
+    stopWatchingJob();
+    setDomains(watchlist.domains.join("\n"));
+    setResults(normalizeTrafficResults(apiResults));
+    setError(null);
+    setActiveJob(null);
+    setProgress(
+      stale.length > 0
+        ? `Loaded "${watchlist.name}" from storage — ${stale.length} of ${watchlist.domains.length} domain(s) outdated or never checked; run analysis to refresh them.`
+        : `Loaded "${watchlist.name}" from storage — all ${watchlist.domains.length} domain(s) up to date.`
+    );
+  };
+
+  const handleRowChange = (updated: TrafficData) => {
+    setResults((prev) =>
+      prev.map((row) =>
+        row.domain === updated.domain ? { ...updated, growth: row.growth } : row
+      )
+    );
   };
 
   const handleClear = () => {
+    stopWatchingJob();
+    setActiveJob(null);
     setDomains("");
     setResults([]);
     setError(null);
@@ -162,6 +310,8 @@ export default function Home() {
 
         <div className="tl-surface p-6 sm:p-8">
           <form onSubmit={handleSubmit} className="space-y-6">
+            <WatchlistPicker domains={domains} onLoad={handleWatchlistLoad} />
+
             <div>
               <label htmlFor="domains" className="tl-label">
                 Domains
@@ -242,7 +392,40 @@ export default function Home() {
 
           {progress && (
             <div className="mt-6 rounded-lg border border-sky-200 bg-sky-50 px-4 py-3 text-sm text-sky-900">
-              {progress}
+              <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+                <span>{progress}</span>
+                {activeJob && (
+                  <div className="flex gap-2">
+                    {activeJob.status === "paused" ? (
+                      <button
+                        type="button"
+                        onClick={() => controlJob("resume")}
+                        disabled={jobActionPending}
+                        className="tl-btn-secondary"
+                      >
+                        Resume
+                      </button>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => controlJob("pause")}
+                        disabled={jobActionPending}
+                        className="tl-btn-secondary"
+                      >
+                        Pause
+                      </button>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => controlJob("cancel")}
+                      disabled={jobActionPending}
+                      className="tl-btn-danger"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                )}
+              </div>
             </div>
           )}
         </div>
@@ -258,7 +441,7 @@ export default function Home() {
               </h2>
               <ExportButtons data={results} />
             </div>
-            <TrafficTable data={results} />
+            <TrafficTable data={results} onRowChange={handleRowChange} />
           </div>
         )}
       </div>
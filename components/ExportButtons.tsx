@@ -1,65 +1,194 @@
 "use client";
 
+import { useState } from "react";
 import { TrafficData } from "@/lib/types";
+import type { KeywordEntry } from "@/types";
 
 interface ExportButtonsProps {
   data: TrafficData[];
 }
 
+interface DomainKeywords {
+  domain: string;
+  monthYear: string | null;
+  keywords: KeywordEntry[];
+}
+
+const KEYWORD_FETCH_CONCURRENCY = 5;
+
+function toCSV(headers: string[], rows: (string | number)[][]): string {
+  return [
+    headers.join(","),
+    ...rows.map((row) =>
+      row.map((cell) => `"${String(cell).replace(/"/g, '""')}"`).join(",")
+    ),
+  ].join("\n");
+}
+
+function download(content: string, type: string, filename: string) {
+  const blob = new Blob([content], { type });
+  const link = document.createElement("a");
+  link.href = URL.createObjectURL(blob);
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(link.href);
+}
+
+async function fetchKeywords(domains: string[]): Promise<Map<string, DomainKeywords>> {
+  const result = new Map<string, DomainKeywords>();
+
+  for (let i = 0; i < domains.length; i += KEYWORD_FETCH_CONCURRENCY) {
+    const chunk = domains.slice(i, i + KEYWORD_FETCH_CONCURRENCY);
+    const responses = await Promise.all(
+      chunk.map(async (domain) => {
+        try {
+          const response = await fetch(
+            `/api/domains/${encodeURIComponent(domain)}/keywords`
+          );
+          if (!response.ok) return null;
+          return (await response.json()) as DomainKeywords;
+        } catch {
+          return null;
+        }
+      })
+    );
+
+    chunk.forEach((domain, index) => {
+      const entry = responses[index];
+      if (entry) result.set(domain, entry);
+    });
+  }
+
+  return result;
+}
+
 export default function ExportButtons({ data }: ExportButtonsProps) {
-  const exportCSV = () => {
+  const [includeKeywords, setIncludeKeywords] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  const date = new Date().toISOString().split("T")[0];
+
+  const loadKeywords = async () => {
+    if (!includeKeywords) return null;
+    const domains = data
+      .filter((row) => row.status === "success")
+      .map((row) => row.domain);
+    return fetchKeywords(domains);
+  };
+
+  const exportCSV = async () => {
     const headers = [
       "Domain",
       "Monthly Visits",
+      "Visits Estimated",
       "Growth (%)",
       "Avg Duration (s)",
       "Pages/Visit",
       "Bounce Rate (%)",
+      "Global Rank",
+      "Country Rank",
+      "Domain Age (days)",
+      "Registrar",
+      "Provider",
+      "Confidence",
+      "Manual Override",
+      "Note",
       "Status",
     ];
 
     const rows = data.map((row) => [
       row.domain,
       row.monthlyVisits ?? "N/A",
+      row.visitsEstimated ? `${row.visitsLow ?? "?"}-${row.visitsHigh ?? "?"}` : "No",
       row.growth ?? "N/A",
       row.avgDuration ?? "N/A",
       row.pagesPerVisit ?? "N/A",
       row.bounceRate ?? "N/A",
+      row.globalRank ?? "N/A",
+      row.countryRank ?? "N/A",
+      row.domainAgeDays ?? "N/A",
+      row.registrar ?? "N/A",
+      row.provider ?? "N/A",
+      row.confidence ?? "N/A",
+      row.source === "manual" ? row.overriddenFields.join(" ") : "No",
+      row.annotation ?? "",
       row.status,
     ]);
 
-    const csvContent = [
-      headers.join(","),
-      ...rows.map((row) =>
-        row.map((cell) => `"${String(cell).replace(/"/g, '""')}"`).join(",")
-      ),
-    ].join("\n");
-
-    const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
-    const link = document.createElement("a");
-    link.href = URL.createObjectURL(blob);
-    link.download = `trafficlens-export-${new Date().toISOString().split("T")[0]}.csv`;
-    link.click();
-    URL.revokeObjectURL(link.href);
+    setExporting(true);
+    try {
+      download(
+        toCSV(headers, rows),
+        "text/csv;charset=utf-8;",
+        `trafficlens-export-${date}.csv`
+      );
+
+      // CSV has no sheets — keywords go to a second file keyed by domain
+      const keywords = await loadKeywords();
+      if (keywords) {
+        const keywordRows: (string | number)[][] = [];
+        for (const [domain, entry] of keywords.entries()) {
+          for (const keyword of entry.keywords) {
+            keywordRows.push([
+              domain,
+              entry.monthYear ?? "N/A",
+              keyword.keyword,
+              keyword.share ?? "N/A",
+              keyword.volume ?? "N/A",
+              keyword.cpc ?? "N/A",
+            ]);
+          }
+        }
+        download(
+          toCSV(
+            ["Domain", "Month", "Keyword", "Share (%)", "Volume", "CPC"],
+            keywordRows
+          ),
+          "text/csv;charset=utf-8;",
+          `trafficlens-keywords-${date}.csv`
+        );
+      }
+    } finally {
+      setExporting(false);
+    }
   };
 
-  const exportJSON = () => {
-    const jsonContent = JSON.stringify(data, null, 2);
-    const blob = new Blob([jsonContent], {
-      type: "application/json;charset=utf-8;",
-    });
-    const link = document.createElement("a");
-    link.href = URL.createObjectURL(blob);
-    link.download = `trafficlens-export-${new Date().toISOString().split("T")[0]}.json`;
-    link.click();
-    URL.revokeObjectURL(link.href);
+  const exportJSON = async () => {
+    setExporting(true);
+    try {
+      const keywords = await loadKeywords();
+      const rows = keywords
+        ? data.map((row) => ({
+            ...row,
+            keywords: keywords.get(row.domain)?.keywords ?? [],
+          }))
+        : data;
+
+      download(
+        JSON.stringify(rows, null, 2),
+        "application/json;charset=utf-8;",
+        `trafficlens-export-${date}.json`
+      );
+    } finally {
+      setExporting(false);
+    }
   };
 
   return (
-    <div className="flex flex-col gap-3 sm:flex-row">
+    <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+      <label className="flex min-h-11 cursor-pointer items-center gap-2">
+        <input
+          type="checkbox"
+          checked={includeKeywords}
+          onChange={(e) => setIncludeKeywords(e.target.checked)}
+          className="h-4 w-4 rounded border-zinc-300 text-sky-600 focus:ring-sky-500/20"
+        />
+        <span className="text-sm text-zinc-700">Include keywords</span>
+      </label>
       <button
         type="button"
         onClick={exportCSV}
+        disabled={exporting}
         className="tl-btn-secondary w-full sm:w-auto"
       >
         Export CSV
@@ -67,6 +196,7 @@ export default function ExportButtons({ data }: ExportButtonsProps) {
       <button
         type="button"
         onClick={exportJSON}
+        disabled={exporting}
         className="tl-btn-secondary w-full sm:w-auto"
       >
         Export JSON
@@ -0,0 +1,236 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { TrafficData } from "@/lib/types";
+import { normalizeTrafficRow } from "@/lib/normalize-traffic";
+import type { TrafficOverride } from "@/types";
+
+interface OverrideEditorProps {
+  row: TrafficData;
+  onSaved: (row: TrafficData) => void;
+}
+
+const ADMIN_KEY_STORAGE = "trafficlens-admin-key";
+
+const FIELDS: {
+  key: "monthlyVisits" | "avgSessionDurationSeconds" | "bounceRate" | "pagesPerVisit" | "globalRank";
+  label: string;
+  step: string;
+}[] = [
+  { key: "monthlyVisits", label: "Monthly visits", step: "1" },
+  { key: "avgSessionDurationSeconds", label: "Avg duration (s)", step: "1" },
+  { key: "bounceRate", label: "Bounce rate (%)", step: "0.1" },
+  { key: "pagesPerVisit", label: "Pages / visit", step: "0.01" },
+  { key: "globalRank", label: "Global rank", step: "1" },
+];
+
+type FormState = Record<(typeof FIELDS)[number]["key"], string> & {
+  note: string;
+  author: string;
+};
+
+const EMPTY_FORM: FormState = {
+  monthlyVisits: "",
+  avgSessionDurationSeconds: "",
+  bounceRate: "",
+  pagesPerVisit: "",
+  globalRank: "",
+  note: "",
+  author: "",
+};
+
+function currentMonth(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}`;
+}
+
+export default function OverrideEditor({ row, onSaved }: OverrideEditorProps) {
+  const [open, setOpen] = useState(false);
+  const [adminKey, setAdminKey] = useState("");
+  const [monthYear, setMonthYear] = useState(currentMonth());
+  const [form, setForm] = useState<FormState>(EMPTY_FORM);
+  const [existing, setExisting] = useState<TrafficOverride[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const base = `/api/domains/${encodeURIComponent(row.domain)}`;
+
+  useEffect(() => {
+    setAdminKey(window.localStorage.getItem(ADMIN_KEY_STORAGE) ?? "");
+  }, []);
+
+  useEffect(() => {
+    if (!open) return;
+    fetch(`${base}/overrides`)
+      .then((response) => (response.ok ? response.json() : { overrides: [] }))
+      .then((body) => setExisting(body.overrides ?? []))
+      .catch(() => setExisting([]));
+  }, [open, base]);
+
+  // Prefill from the stored override for the selected month
+  useEffect(() => {
+    const match = existing.find((override) => override.monthYear === monthYear);
+    if (!match) {
+      setForm(EMPTY_FORM);
+      return;
+    }
+    setForm({
+      monthlyVisits: match.monthlyVisits?.toString() ?? "",
+      avgSessionDurationSeconds: match.avgSessionDurationSeconds?.toString() ?? "",
+      bounceRate: match.bounceRate?.toString() ?? "",
+      pagesPerVisit: match.pagesPerVisit?.toString() ?? "",
+      globalRank: match.globalRank?.toString() ?? "",
+      note: match.note ?? "",
+      author: match.author ?? "",
+    });
+  }, [existing, monthYear]);
+
+  const hasStored = existing.some((override) => override.monthYear === monthYear);
+
+  const refreshRow = async () => {
+    const response = await fetch(base);
+    if (!response.ok) return;
+    const body = await response.json();
+    if (body.latest) onSaved(normalizeTrafficRow(body.latest));
+  };
+
+  const send = async (method: "PUT" | "DELETE") => {
+    setSaving(true);
+    setMessage(null);
+    window.localStorage.setItem(ADMIN_KEY_STORAGE, adminKey);
+
+    try {
+      const response = await fetch(
+        method === "PUT" ? `${base}/overrides` : `${base}/overrides?month=${monthYear}`,
+        {
+          method,
+          headers: {
+            "Content-Type": "application/json",
+            "x-trafficlens-admin-key": adminKey,
+          },
+          body:
+            method === "PUT"
+              ? JSON.stringify({ monthYear, ...form })
+              : undefined,
+        }
+      );
+
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(body.error || `HTTP ${response.status}`);
+      }
+
+      setExisting((prev) => {
+        const others = prev.filter((override) => override.monthYear !== monthYear);
+        return method === "PUT" ? [body.override, ...others] : others;
+      });
+      setMessage(method === "PUT" ? "Override saved." : "Override removed.");
+      await refreshRow();
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : "Request failed");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="text-sm font-medium text-sky-700 hover:text-sky-900"
+      >
+        Edit metrics manually…
+      </button>
+    );
+  }
+
+  return (
+    <div>
+      <p className="mb-2 text-xs font-semibold uppercase tracking-wide text-zinc-500">
+        Manual override
+      </p>
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-4 lg:grid-cols-7">
+        <label className="text-xs text-zinc-600">
+          Month
+          <input
+            type="month"
+            value={monthYear}
+            onChange={(e) => setMonthYear(e.target.value)}
+            className="tl-input mt-1"
+          />
+        </label>
+        {FIELDS.map((field) => (
+          <label key={field.key} className="text-xs text-zinc-600">
+            {field.label}
+            <input
+              type="number"
+              min="0"
+              step={field.step}
+              value={form[field.key]}
+              placeholder={row[field.key === "avgSessionDurationSeconds" ? "avgDuration" : field.key]?.toString() ?? ""}
+              onChange={(e) => setForm({ ...form, [field.key]: e.target.value })}
+              className="tl-input mt-1 tabular-nums"
+            />
+          </label>
+        ))}
+        <label className="text-xs text-zinc-600">
+          Author
+          <input
+            type="text"
+            value={form.author}
+            onChange={(e) => setForm({ ...form, author: e.target.value })}
+            className="tl-input mt-1"
+          />
+        </label>
+      </div>
+      <label className="mt-3 block text-xs text-zinc-600">
+        Note
+        <textarea
+          value={form.note}
+          onChange={(e) => setForm({ ...form, note: e.target.value })}
+          rows={2}
+          placeholder="e.g. Numbers from the owner's GA4 export"
+          className="tl-input mt-1"
+        />
+      </label>
+      <div className="mt-3 flex flex-col gap-3 sm:flex-row sm:items-end">
+        <label className="text-xs text-zinc-600 sm:w-64">
+          Admin key
+          <input
+            type="password"
+            value={adminKey}
+            onChange={(e) => setAdminKey(e.target.value)}
+            className="tl-input mt-1"
+          />
+        </label>
+        <button
+          type="button"
+          onClick={() => send("PUT")}
+          disabled={saving || !adminKey}
+          className="tl-btn-primary w-full sm:w-auto"
+        >
+          Save override
+        </button>
+        {hasStored && (
+          <button
+            type="button"
+            onClick={() => send("DELETE")}
+            disabled={saving || !adminKey}
+            className="tl-btn-danger w-full sm:w-auto"
+          >
+            Remove
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => setOpen(false)}
+          className="tl-btn-secondary w-full sm:w-auto"
+        >
+          Close
+        </button>
+      </div>
+      {message && <p className="mt-2 text-sm text-zinc-600">{message}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { SourceMixPoint } from "@/types";
+
+interface SourceMixChartProps {
+  domain: string;
+}
+
+type SourceKey = Exclude<keyof SourceMixPoint, "monthYear">;
+
+const SOURCES: { key: SourceKey; label: string; color: string }[] = [
+  { key: "search", label: "Search", color: "bg-sky-500" },
+  { key: "direct", label: "Direct", color: "bg-emerald-500" },
+  { key: "referrals", label: "Referrals", color: "bg-amber-500" },
+  { key: "social", label: "Social", color: "bg-fuchsia-500" },
+  { key: "display", label: "Paid / Display", color: "bg-red-500" },
+  { key: "mail", label: "Mail", color: "bg-indigo-500" },
+  { key: "other", label: "Other", color: "bg-zinc-400" },
+];
+
+export default function SourceMixChart({ domain }: SourceMixChartProps) {
+  const [points, setPoints] = useState<SourceMixPoint[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetch(`/api/trends?domain=${encodeURIComponent(domain)}&period=12m`)
+      .then((response) => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return response.json();
+      })
+      .then((body) => {
+        if (!cancelled) setPoints(body.sourceMix ?? []);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [domain]);
+
+  return (
+    <div>
+      <p className="mb-2 text-xs font-semibold uppercase tracking-wide text-zinc-500">
+        Traffic sources by month
+      </p>
+      {error ? (
+        <p className="text-sm text-red-700">Could not load source history ({error})</p>
+      ) : points === null ? (
+        <p className="text-sm text-zinc-500">Loading…</p>
+      ) : points.length === 0 ? (
+        <p className="text-sm text-zinc-500">No source history stored yet.</p>
+      ) : (
+        <>
+          <div className="flex h-32 items-end gap-1.5">
+            {points.map((point) => (
+              <div
+                key={point.monthYear}
+                className="flex h-full min-w-0 flex-1 flex-col items-center gap-1"
+              >
+                <div
+                  className="flex w-full max-w-10 flex-1 flex-col-reverse overflow-hidden rounded-sm bg-zinc-100"
+                  title={SOURCES.map(
+                    (source) => `${source.label}: ${(point[source.key] ?? 0).toFixed(1)}%`
+                  ).join("\n")}
+                >
+                  {SOURCES.map((source) => (
+                    <span
+                      key={source.key}
+                      className={source.color}
+                      style={{ height: `${Math.max(0, Math.min(100, point[source.key] ?? 0))}%` }}
+                    />
+                  ))}
+                </div>
+                <span className="font-mono text-[10px] text-zinc-500">
+                  {point.monthYear.slice(2)}
+                </span>
+              </div>
+            ))}
+          </div>
+          <ul className="mt-3 flex flex-wrap gap-x-4 gap-y-1">
+            {SOURCES.map((source) => (
+              <li key={source.key} className="flex items-center gap-1.5 text-xs text-zinc-600">
+                <span className={`h-2 w-2 rounded-sm ${source.color}`} aria-hidden="true" />
+                {source.label}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
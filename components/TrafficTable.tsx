@@ -1,10 +1,13 @@
 "use client";
 
-import { useState, useMemo } from "react";
+import { Fragment, useState, useMemo } from "react";
 import { TrafficData } from "@/lib/types";
+import SourceMixChart from "@/components/SourceMixChart";
+import OverrideEditor from "@/components/OverrideEditor";
 
 interface TrafficTableProps {
   data: TrafficData[];
+  onRowChange?: (row: TrafficData) => void;
 }
 
 type SortField = keyof TrafficData;
@@ -53,7 +56,42 @@ function StatusBadge({ status }: { status: TrafficData["status"] }) {
   );
 }
 
-export default function TrafficTable({ data }: TrafficTableProps) {
+function CountryBreakdown({
+  countries,
+}: {
+  countries: NonNullable<TrafficData["topCountries"]>;
+}) {
+  return (
+    <div>
+      <p className="mb-2 text-xs font-semibold uppercase tracking-wide text-zinc-500">
+        Traffic by country
+      </p>
+      <ul className="grid grid-cols-1 gap-x-8 gap-y-1.5 sm:grid-cols-2 lg:grid-cols-3">
+        {countries.map((country) => (
+          <li key={country.countryCode} className="flex items-center gap-3 text-sm">
+            <span className="w-10 font-mono text-xs text-zinc-500">
+              {country.countryCode}
+            </span>
+            <span className="min-w-0 flex-1 truncate text-zinc-700">
+              {country.countryName ?? country.countryCode}
+            </span>
+            <span className="relative h-1.5 w-20 overflow-hidden rounded-full bg-zinc-100">
+              <span
+                className="absolute inset-y-0 left-0 rounded-full bg-sky-500"
+                style={{ width: `${Math.min(100, country.share)}%` }}
+              />
+            </span>
+            <span className="w-14 text-right tabular-nums text-zinc-700">
+              {country.share.toFixed(1)}%
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default function TrafficTable({ data, onRowChange }: TrafficTableProps) {
   const [sortField, setSortField] = useState<SortField>("domain");
   const [sortDirection, setSortDirection] = useState<SortDirection>("asc");
   const [filters, setFilters] = useState({
@@ -61,7 +99,23 @@ export default function TrafficTable({ data }: TrafficTableProps) {
     status: "",
     minVisits: "",
     maxVisits: "",
+    maxGlobalRank: "",
+    minAgeYears: "",
   });
+  const [showWhois, setShowWhois] = useState(false);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const toggleExpanded = (domain: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(domain)) {
+        next.delete(domain);
+      } else {
+        next.add(domain);
+      }
+      return next;
+    });
+  };
 
   const handleSort = (field: SortField) => {
     if (sortField === field) {
@@ -99,6 +153,20 @@ export default function TrafficTable({ data }: TrafficTableProps) {
       );
     }
 
+    if (filters.maxGlobalRank) {
+      const maxRank = parseInt(filters.maxGlobalRank, 10);
+      filtered = filtered.filter(
+        (item) => item.globalRank !== null && item.globalRank <= maxRank
+      );
+    }
+
+    if (filters.minAgeYears) {
+      const minDays = parseFloat(filters.minAgeYears) * 365;
+      filtered = filtered.filter(
+        (item) => item.domainAgeDays !== null && item.domainAgeDays >= minDays
+      );
+    }
+
     filtered.sort((a, b) => {
       const aVal = a[sortField];
       const bVal = b[sortField];
@@ -127,12 +195,25 @@ export default function TrafficTable({ data }: TrafficTableProps) {
     return num.toLocaleString();
   };
 
+  const formatRank = (rank: number | null) => {
+    if (rank === null) return "N/A";
+    return `#${rank.toLocaleString()}`;
+  };
+
+  const formatAge = (days: number | null) => {
+    if (days === null) return "N/A";
+    if (days < 365) return `${days}d`;
+    return `${(days / 365).toFixed(1)}y`;
+  };
+
   const formatGrowth = (growth: number | null | undefined) => {
     if (growth == null) return "N/A";
     const sign = growth >= 0 ? "+" : "";
     return `${sign}${growth.toFixed(1)}%`;
   };
 
+  const columnCount = showWhois ? 13 : 10;
+
   const thClass =
     "cursor-pointer select-none px-4 py-3 text-left text-xs font-semibold uppercase tracking-wide text-zinc-500 hover:bg-zinc-50";
 
@@ -142,7 +223,7 @@ export default function TrafficTable({ data }: TrafficTableProps) {
         <p className="mb-3 text-xs font-semibold uppercase tracking-wide text-zinc-500">
           Filters
         </p>
-        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
           <div>
             <label htmlFor="filter-domain" className="tl-label">
               Domain
@@ -206,7 +287,47 @@ export default function TrafficTable({ data }: TrafficTableProps) {
               className="tl-input tabular-nums"
             />
           </div>
+          <div>
+            <label htmlFor="filter-rank" className="tl-label">
+              Max global rank
+            </label>
+            <input
+              id="filter-rank"
+              type="number"
+              placeholder="∞"
+              value={filters.maxGlobalRank}
+              onChange={(e) =>
+                setFilters({ ...filters, maxGlobalRank: e.target.value })
+              }
+              className="tl-input tabular-nums"
+            />
+          </div>
+          <div>
+            <label htmlFor="filter-age" className="tl-label">
+              Min domain age (years)
+            </label>
+            <input
+              id="filter-age"
+              type="number"
+              step="0.5"
+              placeholder="0"
+              value={filters.minAgeYears}
+              onChange={(e) =>
+                setFilters({ ...filters, minAgeYears: e.target.value })
+              }
+              className="tl-input tabular-nums"
+            />
+          </div>
         </div>
+        <label className="mt-4 flex min-h-11 cursor-pointer items-center gap-3">
+          <input
+            type="checkbox"
+            checked={showWhois}
+            onChange={(e) => setShowWhois(e.target.checked)}
+            className="h-5 w-5 rounded border-zinc-300 text-sky-600 focus:ring-sky-500/20"
+          />
+          <span className="text-sm text-zinc-700">Show WHOIS columns</span>
+        </label>
         <button
           type="button"
           onClick={() =>
@@ -215,6 +336,8 @@ export default function TrafficTable({ data }: TrafficTableProps) {
               status: "",
               minVisits: "",
               maxVisits: "",
+              maxGlobalRank: "",
+              minAgeYears: "",
             })
           }
           className="tl-btn-ghost mt-4"
@@ -288,6 +411,63 @@ export default function TrafficTable({ data }: TrafficTableProps) {
                     direction={sortDirection}
                   />
                 </th>
+                <th
+                  className={thClass}
+                  onClick={() => handleSort("globalRank")}
+                >
+                  Global rank
+                  <SortIndicator
+                    active={sortField === "globalRank"}
+                    direction={sortDirection}
+                  />
+                </th>
+                <th
+                  className={thClass}
+                  onClick={() => handleSort("countryRank")}
+                >
+                  Country rank
+                  <SortIndicator
+                    active={sortField === "countryRank"}
+                    direction={sortDirection}
+                  />
+                </th>
+                {showWhois && (
+                  <>
+                    <th
+                      className={thClass}
+                      onClick={() => handleSort("domainAgeDays")}
+                    >
+                      Domain age
+                      <SortIndicator
+                        active={sortField === "domainAgeDays"}
+                        direction={sortDirection}
+                      />
+                    </th>
+                    <th
+                      className={thClass}
+                      onClick={() => handleSort("registrar")}
+                    >
+                      Registrar
+                      <SortIndicator
+                        active={sortField === "registrar"}
+                        direction={sortDirection}
+                      />
+                    </th>
+                    <th
+                      className={thClass}
+                      onClick={() => handleSort("domainExpiresAt")}
+                    >
+                      Expires
+                      <SortIndicator
+                        active={sortField === "domainExpiresAt"}
+                        direction={sortDirection}
+                      />
+                    </th>
+                  </>
+                )}
+                <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wide text-zinc-500">
+                  Top countries
+                </th>
                 <th className="px-4 py-3 text-left text-xs font-semibold uppercase tracking-wide text-zinc-500">
                   Status
                 </th>
@@ -295,43 +475,169 @@ export default function TrafficTable({ data }: TrafficTableProps) {
             </thead>
             <tbody className="divide-y divide-zinc-100 bg-white">
               {filteredAndSorted.map((row, idx) => (
-                <tr key={`${row.domain}-${idx}`} className="hover:bg-zinc-50/60">
-                  <td className="whitespace-nowrap px-4 py-3.5 text-sm font-medium text-zinc-900">
-                    {row.domain}
-                  </td>
-                  <td className="whitespace-nowrap px-4 py-3.5 text-sm tabular-nums text-zinc-700">
-                    {formatNumber(row.monthlyVisits)}
-                  </td>
-                  <td
-                    className={`whitespace-nowrap px-4 py-3.5 text-sm tabular-nums ${
-                      row.growth !== null && row.growth >= 0
-                        ? "text-emerald-700"
-                        : row.growth !== null
-                          ? "text-red-700"
-                          : "text-zinc-500"
-                    }`}
-                  >
-                    {formatGrowth(row.growth)}
-                  </td>
-                  <td className="whitespace-nowrap px-4 py-3.5 text-sm tabular-nums text-zinc-700">
-                    {row.avgDuration != null
-                      ? `${row.avgDuration.toFixed(1)}s`
-                      : "N/A"}
-                  </td>
-                  <td className="whitespace-nowrap px-4 py-3.5 text-sm tabular-nums text-zinc-700">
-                    {row.pagesPerVisit != null
-                      ? row.pagesPerVisit.toFixed(2)
-                      : "N/A"}
-                  </td>
-                  <td className="whitespace-nowrap px-4 py-3.5 text-sm tabular-nums text-zinc-700">
-                    {row.bounceRate != null
-                      ? `${row.bounceRate.toFixed(1)}%`
-                      : "N/A"}
-                  </td>
-                  <td className="whitespace-nowrap px-4 py-3.5 text-sm">
-                    <StatusBadge status={row.status} />
-                  </td>
-                </tr>
+                <Fragment key={`${row.domain}-${idx}`}>
+                  <tr className="hover:bg-zinc-50/60">
+                    <td className="whitespace-nowrap px-4 py-3.5 text-sm font-medium text-zinc-900">
+                      {row.status !== "pending" ? (
+                        <button
+                          type="button"
+                          onClick={() => toggleExpanded(row.domain)}
+                          aria-expanded={expanded.has(row.domain)}
+                          className="inline-flex items-center gap-1.5 hover:text-sky-700"
+                        >
+                          {row.domain}
+                          <span className="text-zinc-400" aria-hidden="true">
+                            {expanded.has(row.domain) ? "▴" : "▾"}
+                          </span>
+                        </button>
+                      ) : (
+                        row.domain
+                      )}
+                      {row.source === "manual" && (
+                        <span
+                          className="ml-2 rounded bg-violet-50 px-1 py-0.5 text-[10px] font-medium uppercase text-violet-700 ring-1 ring-inset ring-violet-600/20"
+                          title={`Manual override: ${row.overriddenFields.join(", ")}${row.annotation ? ` — ${row.annotation}` : ""}`}
+                        >
+                          manual
+                        </span>
+                      )}
+                      {row.annotation && (
+                        <p className="mt-0.5 max-w-[16rem] truncate text-xs font-normal text-zinc-500" title={row.annotation}>
+                          {row.annotation}
+                        </p>
+                      )}
+                    </td>
+                    <td className="whitespace-nowrap px-4 py-3.5 text-sm tabular-nums text-zinc-700">
+                      {row.visitsEstimated ? (
+                        <span
+                          className="italic text-zinc-500"
+                          title={`Estimated from global rank (90% range ${formatNumber(row.visitsLow)} – ${formatNumber(row.visitsHigh)})`}
+                        >
+                          ~{formatNumber(row.monthlyVisits)}
+                          <span className="ml-1.5 rounded bg-amber-50 px-1 py-0.5 text-[10px] font-medium not-italic uppercase text-amber-700 ring-1 ring-inset ring-amber-600/20">
+                            est.
+                          </span>
+                        </span>
+                      ) : (
+                        formatNumber(row.monthlyVisits)
+                      )}
+                    </td>
+                    <td
+                      className={`whitespace-nowrap px-4 py-3.5 text-sm tabular-nums ${
+                        row.growth !== null && row.growth >= 0
+                          ? "text-emerald-700"
+                          : row.growth !== null
+                            ? "text-red-700"
+                            : "text-zinc-500"
+                      }`}
+                    >
+                      {formatGrowth(row.growth)}
+                    </td>
+                    <td className="whitespace-nowrap px-4 py-3.5 text-sm tabular-nums text-zinc-700">
+                      {row.avgDuration != null
+                        ? `${row.avgDuration.toFixed(1)}s`
+                        : "N/A"}
+                    </td>
+                    <td className="whitespace-nowrap px-4 py-3.5 text-sm tabular-nums text-zinc-700">
+                      {row.pagesPerVisit != null
+                        ? row.pagesPerVisit.toFixed(2)
+                        : "N/A"}
+                    </td>
+                    <td className="whitespace-nowrap px-4 py-3.5 text-sm tabular-nums text-zinc-700">
+                      {row.bounceRate != null
+                        ? `${row.bounceRate.toFixed(1)}%`
+                        : "N/A"}
+                    </td>
+                    <td className="whitespace-nowrap px-4 py-3.5 text-sm tabular-nums text-zinc-700">
+                      {formatRank(row.globalRank)}
+                      {row.globalRank !== null &&
+                        row.rankSource &&
+                        row.rankSource !== "traffic.cv" && (
+                          <span
+                            className="ml-1.5 rounded bg-zinc-100 px-1 py-0.5 text-[10px] font-medium uppercase text-zinc-500"
+                            title={`Rank from imported ${row.rankSource} list — traffic.cv had no data`}
+                          >
+                            {row.rankSource}
+                          </span>
+                        )}
+                    </td>
+                    <td className="whitespace-nowrap px-4 py-3.5 text-sm tabular-nums text-zinc-700">
+                      {formatRank(row.countryRank)}
+                    </td>
+                    {showWhois && (
+                      <>
+                        <td
+                          className="whitespace-nowrap px-4 py-3.5 text-sm tabular-nums text-zinc-700"
+                          title={row.domainCreatedAt ? `Registered ${row.domainCreatedAt}` : undefined}
+                        >
+                          {formatAge(row.domainAgeDays)}
+                        </td>
+                        <td className="max-w-[12rem] truncate px-4 py-3.5 text-sm text-zinc-700">
+                          {row.registrar ?? "N/A"}
+                        </td>
+                        <td className="whitespace-nowrap px-4 py-3.5 text-sm tabular-nums text-zinc-700">
+                          {row.domainExpiresAt ?? "N/A"}
+                        </td>
+                      </>
+                    )}
+                    <td className="whitespace-nowrap px-4 py-3.5 text-sm tabular-nums text-zinc-700">
+                      {row.topCountries && row.topCountries.length > 0 ? (
+                        <button
+                          type="button"
+                          onClick={() => toggleExpanded(row.domain)}
+                          aria-expanded={expanded.has(row.domain)}
+                          className="inline-flex items-center gap-1.5 rounded-md px-1.5 py-0.5 hover:bg-zinc-100"
+                        >
+                          <span className="font-mono text-xs text-zinc-500">
+                            {row.topCountries[0].countryCode}
+                          </span>
+                          {row.topCountries[0].share.toFixed(1)}%
+                          {row.topCountries.length > 1 && (
+                            <span className="text-xs text-zinc-500">
+                              +{row.topCountries.length - 1}
+                            </span>
+                          )}
+                          <span className="text-zinc-400" aria-hidden="true">
+                            {expanded.has(row.domain) ? "▴" : "▾"}
+                          </span>
+                        </button>
+                      ) : (
+                        "N/A"
+                      )}
+                    </td>
+                    <td className="whitespace-nowrap px-4 py-3.5 text-sm">
+                      <StatusBadge status={row.status} />
+                      {row.confidence !== null && row.status === "success" && (
+                        <span
+                          className={`ml-2 text-xs tabular-nums ${
+                            row.conflicts.length > 0 ? "text-amber-700" : "text-zinc-500"
+                          }`}
+                          title={
+                            row.conflicts.length > 0
+                              ? `Providers disagree on: ${row.conflicts.join(", ")}`
+                              : "Confidence from cross-provider reconciliation"
+                          }
+                        >
+                          {Math.round(row.confidence * 100)}%
+                          {row.conflicts.length > 0 && " ⚠"}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                  {expanded.has(row.domain) && (
+                    <tr className="bg-zinc-50/60">
+                      <td colSpan={columnCount} className="space-y-5 px-4 py-4">
+                        {row.topCountries && row.topCountries.length > 0 && (
+                          <CountryBreakdown countries={row.topCountries} />
+                        )}
+                        <SourceMixChart domain={row.domain} />
+                        {onRowChange && (
+                          <OverrideEditor row={row} onSaved={onRowChange} />
+                        )}
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
               ))}
             </tbody>
           </table>
@@ -0,0 +1,215 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { TrafficData as ApiTrafficData, Watchlist } from "@/types";
+
+interface WatchlistPickerProps {
+  domains: string; // Current textarea content
+  onLoad: (watchlist: Watchlist, results: ApiTrafficData[], stale: string[]) => void;
+}
+
+function parseDomainText(text: string): string[] {
+  return text
+    .split(/[\n,]/)
+    .map((d) => d.trim())
+    .filter((d) => d.length > 0);
+}
+
+export default function WatchlistPicker({ domains, onLoad }: WatchlistPickerProps) {
+  const [watchlists, setWatchlists] = useState<Watchlist[]>([]);
+  const [selectedId, setSelectedId] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [showSave, setShowSave] = useState(false);
+  const [form, setForm] = useState({ name: "", owner: "", tags: "" });
+  const [message, setMessage] = useState<string | null>(null);
+
+  const selected = watchlists.find((watchlist) => watchlist.id === selectedId) ?? null;
+
+  const loadWatchlists = async () => {
+    try {
+      const response = await fetch("/api/watchlists");
+      if (!response.ok) return;
+      const body = await response.json();
+      setWatchlists(body.watchlists ?? []);
+    } catch {
+      setWatchlists([]);
+    }
+  };
+
+  useEffect(() => {
+    loadWatchlists();
+  }, []);
+
+  const request = async (url: string, init: RequestInit) => {
+    setSaving(true);
+    setMessage(null);
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { "Content-Type": "application/json" },
+      });
+      const body = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(body.error || `HTTP ${response.status}`);
+      }
+      return body;
+    } catch (err) {
+      setMessage(err instanceof Error ? err.message : "Request failed");
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSelect = async (id: string) => {
+    setSelectedId(id);
+    setMessage(null);
+    if (!id) return;
+
+    const body = await request(`/api/watchlists/${id}`, { method: "GET" });
+    if (body) {
+      onLoad(body.watchlist as Watchlist, (body.results || []) as ApiTrafficData[], body.stale ?? []);
+    }
+  };
+
+  const handleCreate = async () => {
+    const body = await request("/api/watchlists", {
+      method: "POST",
+      body: JSON.stringify({
+        name: form.name,
+        owner: form.owner || null,
+        tags: form.tags.split(","),
+        domains: parseDomainText(domains),
+      }),
+    });
+    if (!body) return;
+
+    const created = body.watchlist as Watchlist;
+    await loadWatchlists();
+    setSelectedId(created.id);
+    setShowSave(false);
+    setForm({ name: "", owner: "", tags: "" });
+    setMessage(`Saved "${created.name}" (${created.domains.length} domains).`);
+  };
+
+  const handleUpdate = async () => {
+    if (!selected) return;
+    const body = await request(`/api/watchlists/${selected.id}`, {
+      method: "PATCH",
+      body: JSON.stringify({ domains: parseDomainText(domains) }),
+    });
+    if (!body) return;
+
+    await loadWatchlists();
+    setMessage(`Updated "${selected.name}" (${(body.watchlist as Watchlist).domains.length} domains).`);
+  };
+
+  const handleDelete = async () => {
+    if (!selected || !window.confirm(`Delete watchlist "${selected.name}"?`)) return;
+    const body = await request(`/api/watchlists/${selected.id}`, { method: "DELETE" });
+    if (!body) return;
+
+    setSelectedId("");
+    await loadWatchlists();
+    setMessage(`Deleted "${selected.name}".`);
+  };
+
+  return (
+    <div>
+      <label htmlFor="watchlist" className="tl-label">
+        Watchlist
+      </label>
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+        <select
+          id="watchlist"
+          value={selectedId}
+          onChange={(e) => handleSelect(e.target.value)}
+          disabled={saving}
+          className="tl-input sm:max-w-sm"
+        >
+          <option value="">— Pick a saved list —</option>
+          {watchlists.map((watchlist) => (
+            <option key={watchlist.id} value={watchlist.id}>
+              {watchlist.name} ({watchlist.domains.length})
+              {watchlist.owner ? ` · ${watchlist.owner}` : ""}
+              {watchlist.tags.length > 0 ? ` · ${watchlist.tags.join(", ")}` : ""}
+            </option>
+          ))}
+        </select>
+        <div className="flex gap-2">
+          {selected && (
+            <>
+              <button
+                type="button"
+                onClick={handleUpdate}
+                disabled={saving || parseDomainText(domains).length === 0}
+                className="tl-btn-secondary"
+              >
+                Save domains
+              </button>
+              <button
+                type="button"
+                onClick={handleDelete}
+                disabled={saving}
+                className="tl-btn-danger"
+              >
+                Delete
+              </button>
+            </>
+          )}
+          <button
+            type="button"
+            onClick={() => setShowSave(!showSave)}
+            className="tl-btn-secondary"
+          >
+            Save as new…
+          </button>
+        </div>
+      </div>
+
+      {showSave && (
+        <div className="mt-3 grid grid-cols-1 gap-3 sm:grid-cols-4 sm:items-end">
+          <label className="text-xs text-zinc-600">
+            Name
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="e.g. EU competitors"
+              className="tl-input mt-1"
+            />
+          </label>
+          <label className="text-xs text-zinc-600">
+            Owner
+            <input
+              type="text"
+              value={form.owner}
+              onChange={(e) => setForm({ ...form, owner: e.target.value })}
+              className="tl-input mt-1"
+            />
+          </label>
+          <label className="text-xs text-zinc-600">
+            Tags
+            <input
+              type="text"
+              value={form.tags}
+              onChange={(e) => setForm({ ...form, tags: e.target.value })}
+              placeholder="comma-separated"
+              className="tl-input mt-1"
+            />
+          </label>
+          <button
+            type="button"
+            onClick={handleCreate}
+            disabled={saving || !form.name.trim() || parseDomainText(domains).length === 0}
+            className="tl-btn-primary w-full sm:w-auto"
+          >
+            Save watchlist
+          </button>
+        </div>
+      )}
+
+      {message && <p className="mt-2 text-sm text-zinc-600">{message}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+/**
+ * Next.js server startup hook
+ * Starts the scrape queue worker so unfinished jobs resume after a restart/redeploy —
+ * unless TL_WORKER_MODE=external, where scripts/scrape-worker.ts consumes the queue instead.
+ */
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const { startQueueWorker } = await import('./lib/queue-worker');
+  startQueueWorker();
+}
@@ -0,0 +1,404 @@
+/**
+ * Adaptive batch sizing and concurrency for the queue worker
+ *
+ * Instead of hand-tuning TL_PARALLEL_BATCHES / chunk size / inter-batch sleep per host,
+ * the worker asks this controller for its current settings. Every TL_ADAPTIVE_INTERVAL_MS
+ * the controller looks at what happened since its last decision — per-domain latency and
+ * error rate of finished batches, the Cloudflare challenge rate seen by the circuit breakers,
+ * host CPU load and process + Chromium RSS — and moves one notch:
+ *
+ *   pressure (challenges, memory, CPU, errors, latency)  back off at once
+ *   comfortably within every limit                       speed up one step
+ *   anything in between                                  hold
+ *
+ * Settings always stay within the configured bounds. Every change is written to
+ * controller_decisions (with the metrics behind it) for audit. TL_ADAPTIVE=0 pins the
+ * starting values.
+ */
+
+import os from 'os';
+import { getDb } from './db';
+import { getBrowserPoolState } from './browser-pool';
+import { getUpstreamOutcomeTotals } from './circuit-breaker';
+
+export interface ControllerSettings {
+  chunkSize: number; // Domains leased per batch
+  parallelism: number; // Worker loops allowed to lease at once
+  interBatchSleepMs: number; // Breather after each batch per loop
+}
+
+interface Bounds {
+  min: number;
+  max: number;
+}
+
+export interface ControllerMetrics {
+  batches: number;
+  domains: number;
+  errorRate: number;
+  latencyMsPerDomain: number;
+  challengeRate: number | null; // null when no upstream requests were seen
+  upstreamRequests: number;
+  cpuLoad: number; // Busiest of host load per core and this process's CPU share
+  rssMb: number; // Node process + pooled Chromium
+}
+
+export interface ControllerDecision {
+  id: number;
+  decidedAt: string;
+  processId: string;
+  direction: 'increase' | 'decrease';
+  reason: string;
+  previous: ControllerSettings;
+  next: ControllerSettings;
+  metrics: ControllerMetrics;
+}
+
+export interface BatchObservation {
+  domains: number;
+  failed: number;
+  durationMs: number;
+}
+
+function envNumber(name: string, fallback: number, min: number): number {
+  const value = Number(process.env[name]);
+  return Math.max(min, Number.isFinite(value) && value > 0 ? value : fallback);
+}
+
+function envBounds(minName: string, maxName: string, min: number, max: number): Bounds {
+  const lower = Math.floor(envNumber(minName, min, 1));
+  return { min: lower, max: Math.max(lower, Math.floor(envNumber(maxName, max, 1))) };
+}
+
+const isRailway = !!process.env.RAILWAY_ENVIRONMENT;
+
+/** Off with TL_ADAPTIVE=0 — the starting values below then stay fixed */
+const ENABLED = process.env.TL_ADAPTIVE !== '0';
+
+/**
+ * Bounds per setting. Parallelism tops out at TL_PARALLEL_BATCHES (1 on Railway to avoid
+ * OOM killing the whole process, 3 elsewhere) — the number of worker loops started.
+ */
+export const CONTROLLER_BOUNDS: Record<keyof ControllerSettings, Bounds> = {
+  chunkSize: envBounds('TL_CHUNK_MIN', 'TL_CHUNK_MAX', 2, 20),
+  parallelism: envBounds('TL_PARALLEL_MIN', 'TL_PARALLEL_BATCHES', 1, isRailway ? 1 : 3),
+  interBatchSleepMs: envBounds('TL_INTER_BATCH_SLEEP_MIN_MS', 'TL_INTER_BATCH_SLEEP_MAX_MS', 500, 30000),
+};
+
+/** Starting point; parallelism starts at its maximum like the old static setting */
+const INITIAL_SETTINGS: ControllerSettings = {
+  chunkSize: clamp(Math.floor(envNumber('TL_CHUNK_SIZE', 10, 1)), CONTROLLER_BOUNDS.chunkSize),
+  parallelism: CONTROLLER_BOUNDS.parallelism.max,
+  interBatchSleepMs: clamp(
+    Math.max(0, parseInt(process.env.TL_INTER_BATCH_SLEEP_MS || '4000', 10)),
+    CONTROLLER_BOUNDS.interBatchSleepMs
+  ),
+};
+
+/** Time between decisions. Env TL_ADAPTIVE_INTERVAL_MS */
+const INTERVAL_MS = envNumber('TL_ADAPTIVE_INTERVAL_MS', 60000, 5000);
+/** Finished batches needed before a decision */
+const MIN_BATCHES = 3;
+
+/** Limits; staying under half of them (CPU/RSS/latency: 70–80%) counts as comfortable */
+const MAX_ERROR_RATE = Math.min(1, envNumber('TL_ADAPTIVE_MAX_ERROR_RATE', 0.25, 0.01));
+const MAX_CHALLENGE_RATE = Math.min(1, envNumber('TL_ADAPTIVE_MAX_CHALLENGE_RATE', 0.1, 0.01));
+const MAX_CPU = envNumber('TL_ADAPTIVE_MAX_CPU', 0.85, 0.1);
+const MAX_RSS_MB = envNumber('TL_ADAPTIVE_MAX_RSS_MB', isRailway ? 900 : 3000, 128);
+const TARGET_LATENCY_MS = envNumber('TL_ADAPTIVE_TARGET_LATENCY_MS', 20000, 1000);
+
+const CHUNK_STEP = 2;
+
+/** Audit rows older than this are pruned */
+const DECISION_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+const PROCESS_ID = `${os.hostname()}:${process.pid}`;
+
+interface ControllerRegistry {
+  settings: ControllerSettings;
+  windowStart: number;
+  batches: number;
+  domains: number;
+  failed: number;
+  durationMs: number;
+  upstream: ReturnType<typeof getUpstreamOutcomeTotals>;
+  cpu: NodeJS.CpuUsage;
+  lastDecision: ControllerDecision | null;
+}
+
+// Survives Next.js dev hot reloads, which re-evaluate this module
+const globalForController = globalThis as unknown as { __tlController?: ControllerRegistry };
+
+function clamp(value: number, bounds: Bounds): number {
+  return Math.min(bounds.max, Math.max(bounds.min, Math.round(value)));
+}
+
+function getRegistry(): ControllerRegistry {
+  if (!globalForController.__tlController) {
+    globalForController.__tlController = {
+      settings: { ...INITIAL_SETTINGS },
+      windowStart: Date.now(),
+      batches: 0,
+      domains: 0,
+      failed: 0,
+      durationMs: 0,
+      upstream: getUpstreamOutcomeTotals(),
+      cpu: process.cpuUsage(),
+      lastDecision: null,
+    };
+  }
+  return globalForController.__tlController;
+}
+
+function resetWindow(registry: ControllerRegistry): void {
+  registry.windowStart = Date.now();
+  registry.batches = 0;
+  registry.domains = 0;
+  registry.failed = 0;
+  registry.durationMs = 0;
+  registry.upstream = getUpstreamOutcomeTotals();
+  registry.cpu = process.cpuUsage();
+}
+
+function measure(registry: ControllerRegistry): ControllerMetrics {
+  const upstream = getUpstreamOutcomeTotals();
+  const successes = upstream.success - registry.upstream.success;
+  const errors = upstream.error - registry.upstream.error;
+  const challenges = upstream.challenge - registry.upstream.challenge;
+  const requests = successes + errors + challenges;
+
+  const cores = Math.max(1, os.cpus().length);
+  const elapsedMs = Math.max(1, Date.now() - registry.windowStart);
+  const cpu = process.cpuUsage(registry.cpu);
+  const processShare = (cpu.user + cpu.system) / 1000 / elapsedMs / cores;
+  // loadavg counts Chromium too; it is always 0 on Windows
+  const hostLoad = os.loadavg()[0] / cores;
+
+  const browserPool = getBrowserPoolState();
+  const browserRss = browserPool.browsers.reduce((sum, browser) => sum + (browser.rssMb ?? 0), 0);
+
+  return {
+    batches: registry.batches,
+    domains: registry.domains,
+    errorRate: registry.domains > 0 ? registry.failed / registry.domains : 0,
+    latencyMsPerDomain: registry.domains > 0 ? registry.durationMs / registry.domains : 0,
+    challengeRate: requests > 0 ? challenges / requests : null,
+    upstreamRequests: requests,
+    cpuLoad: Math.max(processShare, hostLoad),
+    rssMb: browserPool.processRssMb + browserRss,
+  };
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+/**
+ * The next settings and why, or null to hold
+ */
+function decide(
+  settings: ControllerSettings,
+  metrics: ControllerMetrics
+): { direction: ControllerDecision['direction']; reason: string; next: ControllerSettings } | null {
+  const bounds = CONTROLLER_BOUNDS;
+  const backOff = (reason: string, change: Partial<ControllerSettings>) => ({
+    direction: 'decrease' as const,
+    reason,
+    next: {
+      chunkSize: clamp(change.chunkSize ?? settings.chunkSize, bounds.chunkSize),
+      parallelism: clamp(change.parallelism ?? settings.parallelism, bounds.parallelism),
+      interBatchSleepMs: clamp(change.interBatchSleepMs ?? settings.interBatchSleepMs, bounds.interBatchSleepMs),
+    },
+  });
+
+  if (metrics.challengeRate !== null && metrics.challengeRate > MAX_CHALLENGE_RATE) {
+    return backOff(`challenge rate ${percent(metrics.challengeRate)}`, {
+      parallelism: settings.parallelism - 1,
+      chunkSize: settings.chunkSize / 2,
+      interBatchSleepMs: Math.max(1000, settings.interBatchSleepMs) * 2,
+    });
+  }
+  if (metrics.rssMb > MAX_RSS_MB) {
+    return backOff(`memory ${metrics.rssMb} MB`, {
+      parallelism: settings.parallelism - 1,
+      chunkSize: settings.chunkSize - CHUNK_STEP,
+    });
+  }
+  if (metrics.cpuLoad > MAX_CPU) {
+    return backOff(`CPU ${percent(metrics.cpuLoad)}`, {
+      parallelism: settings.parallelism - 1,
+      interBatchSleepMs: Math.max(1000, settings.interBatchSleepMs) * 1.5,
+    });
+  }
+  if (metrics.errorRate > MAX_ERROR_RATE) {
+    return backOff(`error rate ${percent(metrics.errorRate)}`, {
+      parallelism: settings.parallelism - 1,
+      interBatchSleepMs: Math.max(1000, settings.interBatchSleepMs) * 1.5,
+    });
+  }
+  if (metrics.latencyMsPerDomain > TARGET_LATENCY_MS) {
+    // Contention first; once at one loop, smaller batches keep leases short
+    return backOff(`latency ${Math.round(metrics.latencyMsPerDomain)} ms/domain`, {
+      parallelism: settings.parallelism - 1,
+      chunkSize: settings.parallelism <= bounds.parallelism.min
+        ? settings.chunkSize - CHUNK_STEP
+        : settings.chunkSize,
+    });
+  }
+
+  const comfortable =
+    (metrics.challengeRate ?? 0) <= MAX_CHALLENGE_RATE / 2 &&
+    metrics.errorRate <= MAX_ERROR_RATE / 2 &&
+    metrics.cpuLoad <= MAX_CPU * 0.7 &&
+    metrics.rssMb <= MAX_RSS_MB * 0.8 &&
+    metrics.latencyMsPerDomain <= TARGET_LATENCY_MS * 0.7;
+  if (!comfortable) return null;
+
+  // One step at a time, cheapest first: shorter breaks, bigger batches, then more loops
+  const next = { ...settings };
+  if (settings.interBatchSleepMs > bounds.interBatchSleepMs.min) {
+    next.interBatchSleepMs = clamp(settings.interBatchSleepMs * 0.75, bounds.interBatchSleepMs);
+  } else if (settings.chunkSize < bounds.chunkSize.max) {
+    next.chunkSize = clamp(settings.chunkSize + CHUNK_STEP, bounds.chunkSize);
+  } else if (settings.parallelism < bounds.parallelism.max) {
+    next.parallelism = settings.parallelism + 1;
+  }
+  return { direction: 'increase', reason: 'within limits', next };
+}
+
+function sameSettings(a: ControllerSettings, b: ControllerSettings): boolean {
+  return a.chunkSize === b.chunkSize
+    && a.parallelism === b.parallelism
+    && a.interBatchSleepMs === b.interBatchSleepMs;
+}
+
+function storeDecision(decision: Omit<ControllerDecision, 'id'>): number {
+  const database = getDb();
+  const result = database.prepare(`
+    INSERT INTO controller_decisions (decided_at, process_id, direction, reason, previous, next, metrics)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    decision.decidedAt,
+    decision.processId,
+    decision.direction,
+    decision.reason,
+    JSON.stringify(decision.previous),
+    JSON.stringify(decision.next),
+    JSON.stringify(decision.metrics)
+  );
+  database
+    .prepare('DELETE FROM controller_decisions WHERE decided_at < ?')
+    .run(new Date(Date.now() - DECISION_RETENTION_MS).toISOString());
+  return Number(result.lastInsertRowid);
+}
+
+function evaluate(registry: ControllerRegistry): void {
+  const metrics = measure(registry);
+  const verdict = decide(registry.settings, metrics);
+  resetWindow(registry);
+  if (!verdict || sameSettings(verdict.next, registry.settings)) return;
+
+  const decision: Omit<ControllerDecision, 'id'> = {
+    decidedAt: new Date().toISOString(),
+    processId: PROCESS_ID,
+    direction: verdict.direction,
+    reason: verdict.reason,
+    previous: registry.settings,
+    next: verdict.next,
+    metrics: {
+      ...metrics,
+      errorRate: Math.round(metrics.errorRate * 1000) / 1000,
+      latencyMsPerDomain: Math.round(metrics.latencyMsPerDomain),
+      challengeRate: metrics.challengeRate === null ? null : Math.round(metrics.challengeRate * 1000) / 1000,
+      cpuLoad: Math.round(metrics.cpuLoad * 100) / 100,
+    },
+  };
+  registry.settings = verdict.next;
+
+  let id = 0;
+  try {
+    id = storeDecision(decision);
+  } catch (error) {
+    console.error('[Controller] Failed to store decision:', error);
+  }
+  registry.lastDecision = { id, ...decision };
+
+  const { previous, next } = decision;
+  console.log(
+    `[Controller] ${decision.direction} (${decision.reason}): chunk ${previous.chunkSize}→${next.chunkSize}, ` +
+      `parallel ${previous.parallelism}→${next.parallelism}, sleep ${previous.interBatchSleepMs}→${next.interBatchSleepMs} ms`
+  );
+}
+
+/**
+ * Settings the worker should use for its next lease
+ */
+export function getControllerSettings(): ControllerSettings {
+  return { ...getRegistry().settings };
+}
+
+/**
+ * Feed a finished batch; decides once the interval has passed and enough batches came in
+ */
+export function recordBatchObservation(observation: BatchObservation): void {
+  const registry = getRegistry();
+  registry.batches++;
+  registry.domains += observation.domains;
+  registry.failed += observation.failed;
+  registry.durationMs += observation.durationMs;
+
+  if (!ENABLED) return;
+  if (registry.batches < MIN_BATCHES || Date.now() - registry.windowStart < INTERVAL_MS) return;
+  evaluate(registry);
+}
+
+export function getControllerState() {
+  const registry = getRegistry();
+  return {
+    enabled: ENABLED,
+    settings: { ...registry.settings },
+    bounds: CONTROLLER_BOUNDS,
+    limits: {
+      intervalMs: INTERVAL_MS,
+      maxErrorRate: MAX_ERROR_RATE,
+      maxChallengeRate: MAX_CHALLENGE_RATE,
+      maxCpu: MAX_CPU,
+      maxRssMb: MAX_RSS_MB,
+      targetLatencyMs: TARGET_LATENCY_MS,
+    },
+    window: {
+      since: new Date(registry.windowStart).toISOString(),
+      batches: registry.batches,
+      domains: registry.domains,
+      failed: registry.failed,
+    },
+    lastDecision: registry.lastDecision,
+  };
+}
+
+/**
+ * Most recent decisions from every worker process, newest first
+ */
+export function getControllerDecisions(limit: number = 50): ControllerDecision[] {
+  const rows = getDb()
+    .prepare('SELECT * FROM controller_decisions ORDER BY id DESC LIMIT ?')
+    .all(Math.max(1, Math.min(500, limit))) as Array<{
+      id: number;
+      decided_at: string;
+      process_id: string;
+      direction: ControllerDecision['direction'];
+      reason: string;
+      previous: string;
+      next: string;
+      metrics: string;
+    }>;
+
+  return rows.map(row => ({
+    id: row.id,
+    decidedAt: row.decided_at,
+    processId: row.process_id,
+    direction: row.direction,
+    reason: row.reason,
+    previous: JSON.parse(row.previous),
+    next: JSON.parse(row.next),
+    metrics: JSON.parse(row.metrics),
+  }));
+}
@@ -0,0 +1,19 @@
+/**
+ * Shared admin check for mutating endpoints
+ * Header: x-trafficlens-admin-key: $TRAFFICLENS_ADMIN_KEY
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+
+export const ADMIN_KEY_HEADER = 'x-trafficlens-admin-key';
+
+export function isAdminRequest(request: NextRequest): boolean {
+  const expected = process.env.TRAFFICLENS_ADMIN_KEY;
+  if (!expected) return false;
+  const provided = request.headers.get(ADMIN_KEY_HEADER);
+  return provided === expected;
+}
+
+export function unauthorizedResponse(): NextResponse {
+  return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+}
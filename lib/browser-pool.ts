@@ -0,0 +1,509 @@
+/**
+ * Managed pool of Chromium browsers for the Playwright scraper
+ *
+ * Replaces the single forever-browser: up to TL_BROWSER_POOL_SIZE browsers, each
+ * serving up to TL_BROWSER_MAX_CONTEXTS contexts at once. A browser is recycled
+ * (closed once idle, relaunched on demand) after TL_BROWSER_MAX_PAGES page loads,
+ * when its process tree grows past TL_BROWSER_MAX_RSS_MB, or when it disconnects.
+ *
+ * Every browser is launched with a `--tl-browser=<id>` marker switch, so on Linux the
+ * watchdog can find its process tree in /proc — to measure RSS, and to SIGKILL Chromium
+ * processes left behind by a browser that was closed or crashed (the pthread/SIGTRAP
+ * pile-ups we used to fix by redeploying).
+ */
+
+import fs from 'fs';
+import { randomUUID } from 'crypto';
+import type { Browser, BrowserContext } from 'playwright';
+
+type BrowserContextOptions = NonNullable<Parameters<Browser['newContext']>[0]>;
+
+export type BrowserRecycleReason = 'pages' | 'memory' | 'disconnected' | 'idle' | 'admin' | 'shutdown';
+
+interface PooledBrowser {
+  id: string;
+  key: string; // Launch configuration (proxy choice); browsers are only shared within a key
+  browser: Browser | null; // null while launching
+  launching: Promise<Browser> | null;
+  launchedAt: number;
+  lastUsedAt: number;
+  activeContexts: number;
+  pagesServed: number;
+  retiring: BrowserRecycleReason | null;
+  rssBytes: number | null;
+}
+
+export interface BrowserLease {
+  context: BrowserContext;
+  /** Close the context and hand the slot back (safe to call after the context was closed) */
+  release: () => Promise<void>;
+}
+
+export interface BrowserPoolState {
+  config: {
+    poolSize: number;
+    maxContexts: number;
+    maxPages: number;
+    maxRssMb: number;
+    idleMs: number;
+  };
+  healthy: boolean;
+  waiting: number;
+  processRssMb: number;
+  browsers: {
+    id: string;
+    key: string;
+    state: 'launching' | 'ready' | 'retiring';
+    activeContexts: number;
+    pagesServed: number;
+    rssMb: number | null;
+    launchedAt: string;
+    lastUsedAt: string;
+    retiring: BrowserRecycleReason | null;
+  }[];
+  totals: {
+    launched: number;
+    launchFailures: number;
+    recycled: Record<BrowserRecycleReason, number>;
+    zombiesKilled: number;
+  };
+  lastLaunchError: { message: string; at: string } | null;
+  lastRecycle: { id: string; reason: BrowserRecycleReason; at: string } | null;
+}
+
+function envInt(name: string, fallback: number, min: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Math.max(min, Number.isFinite(value) ? value : fallback);
+}
+
+const ON_RAILWAY = !!process.env.RAILWAY_ENVIRONMENT;
+
+/** Browsers alive at once. Env TL_BROWSER_POOL_SIZE (default 1 on Railway, 2 elsewhere) */
+const POOL_SIZE = envInt('TL_BROWSER_POOL_SIZE', ON_RAILWAY ? 1 : 2, 1);
+/** Concurrent contexts per browser. Env TL_BROWSER_MAX_CONTEXTS */
+const MAX_CONTEXTS = envInt('TL_BROWSER_MAX_CONTEXTS', 2, 1);
+/** Page loads before a browser is recycled. Env TL_BROWSER_MAX_PAGES */
+const MAX_PAGES = envInt('TL_BROWSER_MAX_PAGES', 100, 1);
+/** Process-tree RSS that triggers a recycle. Env TL_BROWSER_MAX_RSS_MB */
+const MAX_RSS_MB = envInt('TL_BROWSER_MAX_RSS_MB', ON_RAILWAY ? 700 : 1500, 100);
+/** Idle time after which a browser is closed. Env TL_BROWSER_IDLE_MS */
+const IDLE_MS = envInt('TL_BROWSER_IDLE_MS', 5 * 60 * 1000, 10000);
+
+const WATCHDOG_INTERVAL_MS = 30000;
+const CLOSE_TIMEOUT_MS = 10000;
+const MARKER_SWITCH = '--tl-browser=';
+
+// Identifies this server process in marker switches, so the zombie sweep never
+// touches browsers owned by another process on the same machine
+const INSTANCE_ID = randomUUID().slice(0, 8);
+
+interface PoolRegistry {
+  browsers: Map<string, PooledBrowser>;
+  waiters: Set<() => void>;
+  watchdog: ReturnType<typeof setInterval> | null;
+  launched: number;
+  launchFailures: number;
+  recycled: Record<BrowserRecycleReason, number>;
+  zombiesKilled: number;
+  lastLaunchError: { message: string; at: string } | null;
+  lastRecycle: { id: string; reason: BrowserRecycleReason; at: string } | null;
+}
+
+// Survives Next.js dev hot reloads, which re-evaluate this module
+const globalForPool = globalThis as unknown as { __tlBrowserPool?: PoolRegistry };
+
+function getRegistry(): PoolRegistry {
+  if (!globalForPool.__tlBrowserPool) {
+    globalForPool.__tlBrowserPool = {
+      browsers: new Map(),
+      waiters: new Set(),
+      watchdog: null,
+      launched: 0,
+      launchFailures: 0,
+      recycled: { pages: 0, memory: 0, disconnected: 0, idle: 0, admin: 0, shutdown: 0 },
+      zombiesKilled: 0,
+      lastLaunchError: null,
+      lastRecycle: null,
+    };
+  }
+  return globalForPool.__tlBrowserPool;
+}
+
+// /proc helpers (Linux only; everything degrades to no-ops elsewhere)
+
+interface ProcInfo {
+  pid: number;
+  ppid: number;
+  rssBytes: number;
+  cmdline: string;
+}
+
+function readProcesses(): ProcInfo[] {
+  if (process.platform !== 'linux') return [];
+  const processes: ProcInfo[] = [];
+
+  for (const entry of fs.readdirSync('/proc')) {
+    if (!/^\d+$/.test(entry)) continue;
+    try {
+      const stat = fs.readFileSync(`/proc/${entry}/stat`, 'utf8');
+      // Field 4 (ppid) comes after "pid (comm) state"; comm may contain spaces
+      const ppid = parseInt(stat.slice(stat.lastIndexOf(')') + 2).split(' ')[1], 10);
+      const status = fs.readFileSync(`/proc/${entry}/status`, 'utf8');
+      const rssKb = parseInt(status.match(/VmRSS:\s+(\d+)/)?.[1] || '0', 10);
+      const cmdline = fs.readFileSync(`/proc/${entry}/cmdline`, 'utf8').replace(/\0/g, ' ');
+      processes.push({ pid: parseInt(entry, 10), ppid, rssBytes: rssKb * 1024, cmdline });
+    } catch {
+      // Process exited while we were reading it
+    }
+  }
+  return processes;
+}
+
+/**
+ * Marked browser processes with their whole subtree (renderers, GPU, zygote)
+ */
+function markedTrees(processes: ProcInfo[]): Map<string, ProcInfo[]> {
+  const children = new Map<number, ProcInfo[]>();
+  for (const info of processes) {
+    const siblings = children.get(info.ppid) ?? [];
+    siblings.push(info);
+    children.set(info.ppid, siblings);
+  }
+
+  const trees = new Map<string, ProcInfo[]>();
+  for (const info of processes) {
+    const marker = info.cmdline.match(/--tl-browser=(\S+)/)?.[1];
+    if (!marker || trees.has(marker)) continue;
+    // Only the process whose parent doesn't carry the same marker is the tree root
+    const parent = processes.find(candidate => candidate.pid === info.ppid);
+    if (parent?.cmdline.includes(`${MARKER_SWITCH}${marker}`)) continue;
+
+    const tree: ProcInfo[] = [];
+    const stack = [info];
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      tree.push(current);
+      stack.push(...(children.get(current.pid) ?? []));
+    }
+    trees.set(marker, tree);
+  }
+  return trees;
+}
+
+function killTree(tree: ProcInfo[]): number {
+  let killed = 0;
+  for (const info of tree) {
+    try {
+      process.kill(info.pid, 'SIGKILL');
+      killed++;
+    } catch {
+      // Already gone
+    }
+  }
+  return killed;
+}
+
+function wakeWaiters(): void {
+  const registry = getRegistry();
+  for (const wake of Array.from(registry.waiters)) wake();
+}
+
+function waitForSlot(signal?: AbortSignal): Promise<void> {
+  const registry = getRegistry();
+  return new Promise((resolve, reject) => {
+    const wake = () => {
+      registry.waiters.delete(wake);
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    };
+    const onAbort = () => {
+      registry.waiters.delete(wake);
+      reject(signal!.reason);
+    };
+    registry.waiters.add(wake);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+async function closeBrowser(entry: PooledBrowser, reason: BrowserRecycleReason): Promise<void> {
+  const registry = getRegistry();
+  if (!registry.browsers.delete(entry.id)) return;
+
+  registry.recycled[reason]++;
+  registry.lastRecycle = { id: entry.id, reason, at: new Date().toISOString() };
+  console.log(
+    `[BrowserPool] Recycling ${entry.id} (${reason}) after ${entry.pagesServed} page(s)`
+  );
+
+  if (entry.browser?.isConnected()) {
+    await Promise.race([
+      entry.browser.close().catch(() => { }),
+      new Promise(resolve => setTimeout(resolve, CLOSE_TIMEOUT_MS)),
+    ]);
+  }
+
+  // Whatever survived close() (or a crash) is a zombie now
+  const leftovers = markedTrees(readProcesses()).get(entry.id);
+  if (leftovers) {
+    const killed = killTree(leftovers);
+    registry.zombiesKilled += killed;
+    if (killed > 0) console.warn(`[BrowserPool] Killed ${killed} leftover process(es) of ${entry.id}`);
+  }
+
+  wakeWaiters();
+}
+
+/**
+ * Stop handing out this browser; it closes as soon as its last context is released
+ */
+function retire(entry: PooledBrowser, reason: BrowserRecycleReason): void {
+  if (!entry.retiring) entry.retiring = reason;
+  if (entry.activeContexts === 0) {
+    closeBrowser(entry, entry.retiring).catch(error => {
+      console.error('[BrowserPool] Close failed:', error);
+    });
+  }
+}
+
+function recycleReason(entry: PooledBrowser): BrowserRecycleReason | null {
+  if (entry.browser && !entry.browser.isConnected()) return 'disconnected';
+  if (entry.pagesServed >= MAX_PAGES) return 'pages';
+  if (entry.rssBytes !== null && entry.rssBytes > MAX_RSS_MB * 1024 * 1024) return 'memory';
+  return null;
+}
+
+function launchBrowser(
+  key: string,
+  launch: (extraArgs: string[]) => Promise<Browser>
+): PooledBrowser {
+  const registry = getRegistry();
+  const id = `${INSTANCE_ID}-${randomUUID().slice(0, 8)}`;
+  const now = Date.now();
+  const entry: PooledBrowser = {
+    id,
+    key,
+    browser: null,
+    launching: null,
+    launchedAt: now,
+    lastUsedAt: now,
+    activeContexts: 0,
+    pagesServed: 0,
+    retiring: null,
+    rssBytes: null,
+  };
+
+  entry.launching = launch([`${MARKER_SWITCH}${id}`]).then(
+    browser => {
+      entry.browser = browser;
+      entry.launching = null;
+      registry.launched++;
+      browser.on('disconnected', () => retire(entry, 'disconnected'));
+      console.log(`[BrowserPool] Launched ${id} (${key})`);
+      return browser;
+    },
+    error => {
+      registry.browsers.delete(id);
+      registry.launchFailures++;
+      registry.lastLaunchError = {
+        message: error instanceof Error ? error.message : String(error),
+        at: new Date().toISOString(),
+      };
+      wakeWaiters();
+      throw error;
+    }
+  );
+  registry.browsers.set(id, entry);
+  startWatchdog();
+  return entry;
+}
+
+/**
+ * Borrow a fresh context from a pooled browser launched for `key`, waiting for a free slot
+ * when the pool is at capacity. `launch` starts a browser with the given extra switches.
+ */
+export async function acquireBrowserContext(
+  key: string,
+  launch: (extraArgs: string[]) => Promise<Browser>,
+  options: BrowserContextOptions,
+  signal?: AbortSignal
+): Promise<BrowserLease> {
+  const registry = getRegistry();
+
+  while (true) {
+    signal?.throwIfAborted();
+    const entries = Array.from(registry.browsers.values());
+
+    for (const entry of entries) {
+      const reason = entry.retiring ? null : recycleReason(entry);
+      if (reason) retire(entry, reason);
+    }
+
+    const candidate = entries
+      .filter(entry => entry.key === key && !entry.retiring && entry.activeContexts < MAX_CONTEXTS)
+      .sort((a, b) => a.activeContexts - b.activeContexts)[0];
+
+    let entry: PooledBrowser | undefined = candidate;
+    if (!entry && registry.browsers.size < POOL_SIZE) {
+      entry = launchBrowser(key, launch);
+    }
+
+    if (!entry) {
+      // Pool is full of browsers for another proxy choice: recycle an idle one to make room
+      const idle = entries.find(other => other.key !== key && other.browser && other.activeContexts === 0);
+      if (idle) {
+        await closeBrowser(idle, 'idle');
+        continue;
+      }
+      await waitForSlot(signal);
+      continue;
+    }
+
+    entry.activeContexts++;
+    entry.lastUsedAt = Date.now();
+    try {
+      const browser = entry.browser ?? (await entry.launching!);
+      signal?.throwIfAborted();
+      const context = await browser.newContext(options);
+      return { context, release: () => releaseContext(entry!, context) };
+    } catch (error) {
+      entry.activeContexts--;
+      if (entry.browser && !entry.browser.isConnected()) retire(entry, 'disconnected');
+      else if (entry.activeContexts === 0 && entry.retiring) retire(entry, entry.retiring);
+      wakeWaiters();
+      throw error;
+    }
+  }
+}
+
+async function releaseContext(entry: PooledBrowser, context: BrowserContext): Promise<void> {
+  await context.close().catch(() => { });
+  entry.activeContexts = Math.max(0, entry.activeContexts - 1);
+  entry.pagesServed++;
+  entry.lastUsedAt = Date.now();
+
+  const reason = entry.retiring ?? recycleReason(entry);
+  if (reason) retire(entry, reason);
+  wakeWaiters();
+}
+
+/**
+ * Measure browser memory, retire what is over budget or idle, kill orphaned Chromium trees
+ */
+function runWatchdog(): void {
+  const registry = getRegistry();
+  const processes = readProcesses();
+  const trees = markedTrees(processes);
+  const now = Date.now();
+
+  for (const entry of registry.browsers.values()) {
+    const tree = trees.get(entry.id);
+    entry.rssBytes = tree ? tree.reduce((sum, info) => sum + info.rssBytes, 0) : null;
+
+    if (entry.retiring || !entry.browser) continue;
+    const reason = recycleReason(entry)
+      ?? (entry.activeContexts === 0 && now - entry.lastUsedAt > IDLE_MS ? 'idle' : null);
+    if (reason) retire(entry, reason);
+  }
+
+  // Trees from this process with no pool entry, or from a server process that died
+  const livePids = new Set(processes.map(info => info.pid));
+  for (const [marker, tree] of trees) {
+    const ours = marker.startsWith(`${INSTANCE_ID}-`);
+    const orphaned = tree[0].ppid === 1 || !livePids.has(tree[0].ppid);
+    if ((ours && !registry.browsers.has(marker)) || (!ours && orphaned)) {
+      const killed = killTree(tree);
+      registry.zombiesKilled += killed;
+      if (killed > 0) console.warn(`[BrowserPool] Killed ${killed} zombie process(es) of ${marker}`);
+    }
+  }
+
+  if (registry.browsers.size === 0 && registry.watchdog) {
+    clearInterval(registry.watchdog);
+    registry.watchdog = null;
+  }
+}
+
+function startWatchdog(): void {
+  const registry = getRegistry();
+  if (registry.watchdog) return;
+  registry.watchdog = setInterval(() => {
+    try {
+      runWatchdog();
+    } catch (error) {
+      console.error('[BrowserPool] Watchdog failed:', error);
+    }
+  }, WATCHDOG_INTERVAL_MS);
+  registry.watchdog.unref?.();
+}
+
+/**
+ * Recycle every browser (busy ones once their contexts are released) and sweep zombies.
+ * Returns how many browsers were retired.
+ */
+export function recycleBrowserPool(reason: BrowserRecycleReason = 'admin'): number {
+  const registry = getRegistry();
+  const entries = Array.from(registry.browsers.values()).filter(entry => !entry.retiring);
+  for (const entry of entries) {
+    if (entry.browser) retire(entry, reason);
+  }
+  runWatchdog();
+  return entries.length;
+}
+
+/**
+ * Close every browser now, busy or not, and wait for them (process shutdown)
+ */
+export async function closeBrowserPool(): Promise<void> {
+  const registry = getRegistry();
+  if (registry.watchdog) {
+    clearInterval(registry.watchdog);
+    registry.watchdog = null;
+  }
+  await Promise.all(
+    Array.from(registry.browsers.values()).map(entry => {
+      entry.retiring = entry.retiring ?? 'shutdown';
+      return closeBrowser(entry, 'shutdown');
+    })
+  );
+}
+
+export function getBrowserPoolState(): BrowserPoolState {
+  const registry = getRegistry();
+  const toMb = (bytes: number) => Math.round(bytes / 1024 / 1024);
+  const recentLaunchFailure = registry.lastLaunchError
+    && Date.now() - new Date(registry.lastLaunchError.at).getTime() < 5 * 60 * 1000
+    && !Array.from(registry.browsers.values()).some(entry => entry.browser?.isConnected());
+
+  return {
+    config: {
+      poolSize: POOL_SIZE,
+      maxContexts: MAX_CONTEXTS,
+      maxPages: MAX_PAGES,
+      maxRssMb: MAX_RSS_MB,
+      idleMs: IDLE_MS,
+    },
+    // A launch failed recently and nothing is up — the browser side is wedged
+    healthy: !recentLaunchFailure,
+    waiting: registry.waiters.size,
+    processRssMb: toMb(process.memoryUsage().rss),
+    browsers: Array.from(registry.browsers.values()).map(entry => ({
+      id: entry.id,
+      key: entry.key,
+      state: entry.retiring ? 'retiring' : entry.browser ? 'ready' : 'launching',
+      activeContexts: entry.activeContexts,
+      pagesServed: entry.pagesServed,
+      rssMb: entry.rssBytes !== null ? toMb(entry.rssBytes) : null,
+      launchedAt: new Date(entry.launchedAt).toISOString(),
+      lastUsedAt: new Date(entry.lastUsedAt).toISOString(),
+      retiring: entry.retiring,
+    })),
+    totals: {
+      launched: registry.launched,
+      launchFailures: registry.launchFailures,
+      recycled: { ...registry.recycled },
+      zombiesKilled: registry.zombiesKilled,
+    },
+    lastLaunchError: registry.lastLaunchError,
+    lastRecycle: registry.lastRecycle,
+  };
+}
@@ -0,0 +1,265 @@
+/**
+ * Circuit breakers per upstream host + egress (proxy / CF worker / direct)
+ *
+ *   closed     requests flow; outcomes land in a rolling window
+ *   open       too many challenges or errors — requests fail fast with CIRCUIT_OPEN
+ *              until the cooldown passes (doubles on every consecutive trip)
+ *   half-open  one probe request at a time; success closes, failure re-opens
+ *
+ * Callers treat CIRCUIT_OPEN rows as "try the next provider / come back later"
+ * rather than as a domain failure.
+ */
+
+import { egressKey } from './rate-limiter';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+export type CircuitFailureKind = 'challenge' | 'error';
+
+/** Error message prefix for requests refused by an open breaker */
+export const CIRCUIT_OPEN_PREFIX = 'CIRCUIT_OPEN';
+
+export class CircuitOpenError extends Error {
+  constructor(public readonly key: string, public readonly retryAt: number) {
+    super(`${CIRCUIT_OPEN_PREFIX}: ${key} blocked until ${new Date(retryAt).toISOString()}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+type Outcome = 'success' | CircuitFailureKind;
+
+interface Breaker {
+  key: string;
+  host: string;
+  egress: string;
+  state: CircuitState;
+  outcomes: Outcome[]; // Rolling window, newest last
+  consecutiveChallenges: number;
+  trips: number; // Consecutive trips without a successful probe
+  openedAt: number | null;
+  retryAt: number | null;
+  probeInFlight: boolean;
+  lastFailure: string | null;
+  totals: Record<Outcome, number>; // Every outcome since start (lib/adaptive-controller.ts reads these)
+}
+
+export interface CircuitBreakerState {
+  key: string;
+  host: string;
+  egress: string;
+  state: CircuitState;
+  failureRate: number;
+  samples: number;
+  consecutiveChallenges: number;
+  trips: number;
+  openedAt: string | null;
+  retryAt: string | null;
+  lastFailure: string | null;
+}
+
+function envNumber(name: string, fallback: number, min: number): number {
+  const value = Number(process.env[name]);
+  return Math.max(min, Number.isFinite(value) && value > 0 ? value : fallback);
+}
+
+/** Outcomes kept per breaker. Env TL_BREAKER_WINDOW */
+const WINDOW = Math.floor(envNumber('TL_BREAKER_WINDOW', 20, 2));
+/** Fewest outcomes before the failure rate can trip. Env TL_BREAKER_MIN_SAMPLES */
+const MIN_SAMPLES = Math.floor(envNumber('TL_BREAKER_MIN_SAMPLES', 5, 1));
+/** Failure share of the window that trips. Env TL_BREAKER_FAILURE_RATE */
+const FAILURE_RATE = Math.min(1, envNumber('TL_BREAKER_FAILURE_RATE', 0.5, 0.01));
+/** Cloudflare challenges in a row that trip regardless of the window. Env TL_BREAKER_CHALLENGES */
+const CHALLENGE_LIMIT = Math.floor(envNumber('TL_BREAKER_CHALLENGES', 3, 1));
+/** First open period; doubled per consecutive trip. Env TL_BREAKER_COOLDOWN_MS */
+const COOLDOWN_MS = envNumber('TL_BREAKER_COOLDOWN_MS', 60000, 1000);
+const MAX_COOLDOWN_MS = 15 * 60 * 1000;
+
+// Survives Next.js dev hot reloads, which re-evaluate this module
+const globalForBreakers = globalThis as unknown as { __tlBreakers?: Map<string, Breaker> };
+
+function getBreakers(): Map<string, Breaker> {
+  if (!globalForBreakers.__tlBreakers) {
+    globalForBreakers.__tlBreakers = new Map();
+  }
+  return globalForBreakers.__tlBreakers;
+}
+
+function getBreaker(host: string, proxy?: string | null): Breaker {
+  const egress = egressKey(proxy);
+  const key = `${host.toLowerCase()}|${egress}`;
+  const breakers = getBreakers();
+  let breaker = breakers.get(key);
+  if (!breaker) {
+    breaker = {
+      key,
+      host: host.toLowerCase(),
+      egress,
+      state: 'closed',
+      outcomes: [],
+      consecutiveChallenges: 0,
+      trips: 0,
+      openedAt: null,
+      retryAt: null,
+      probeInFlight: false,
+      lastFailure: null,
+      totals: { success: 0, error: 0, challenge: 0 },
+    };
+    breakers.set(key, breaker);
+  }
+  return breaker;
+}
+
+function countOutcome(breaker: Breaker, outcome: Outcome): void {
+  // Breakers created before a hot reload have no totals yet
+  breaker.totals = breaker.totals ?? { success: 0, error: 0, challenge: 0 };
+  breaker.totals[outcome]++;
+}
+
+function failureRate(breaker: Breaker): number {
+  if (breaker.outcomes.length === 0) return 0;
+  return breaker.outcomes.filter(outcome => outcome !== 'success').length / breaker.outcomes.length;
+}
+
+function trip(breaker: Breaker, reason: string): void {
+  const cooldown = Math.min(MAX_COOLDOWN_MS, COOLDOWN_MS * 2 ** breaker.trips);
+  const now = Date.now();
+  breaker.state = 'open';
+  breaker.trips++;
+  breaker.openedAt = now;
+  breaker.retryAt = now + cooldown;
+  breaker.probeInFlight = false;
+  console.warn(`[Circuit] ${breaker.key} opened for ${Math.round(cooldown / 1000)}s (${reason})`);
+}
+
+/**
+ * Throw CircuitOpenError unless a request towards host/proxy may go out now.
+ * In half-open state only one probe is let through at a time.
+ */
+export function assertCircuitClosed(host: string, proxy?: string | null): void {
+  const breaker = getBreaker(host, proxy);
+
+  if (breaker.state === 'open') {
+    if (Date.now() < breaker.retryAt!) {
+      throw new CircuitOpenError(breaker.key, breaker.retryAt!);
+    }
+    breaker.state = 'half-open';
+    breaker.probeInFlight = false;
+  }
+
+  if (breaker.state === 'half-open') {
+    if (breaker.probeInFlight) {
+      throw new CircuitOpenError(breaker.key, Date.now() + 5000);
+    }
+    breaker.probeInFlight = true;
+  }
+}
+
+/**
+ * Whether requests towards host/proxy would be refused right now (read-only; used to
+ * steer proxy rotation away from blocked egresses)
+ */
+export function isCircuitOpen(host: string, proxy?: string | null): boolean {
+  const breaker = getBreakers().get(`${host.toLowerCase()}|${egressKey(proxy)}`);
+  if (!breaker) return false;
+  if (breaker.state === 'open') return Date.now() < breaker.retryAt!;
+  return breaker.state === 'half-open' && breaker.probeInFlight;
+}
+
+export function recordCircuitSuccess(host: string, proxy?: string | null): void {
+  const breaker = getBreaker(host, proxy);
+  breaker.consecutiveChallenges = 0;
+  countOutcome(breaker, 'success');
+
+  if (breaker.state !== 'closed') {
+    console.log(`[Circuit] ${breaker.key} closed after a successful probe`);
+    breaker.state = 'closed';
+    breaker.outcomes = [];
+    breaker.trips = 0;
+    breaker.openedAt = null;
+    breaker.retryAt = null;
+    breaker.probeInFlight = false;
+  }
+
+  breaker.outcomes.push('success');
+  if (breaker.outcomes.length > WINDOW) breaker.outcomes.shift();
+}
+
+export function recordCircuitFailure(
+  host: string,
+  proxy: string | null | undefined,
+  kind: CircuitFailureKind,
+  message?: string
+): void {
+  const breaker = getBreaker(host, proxy);
+  breaker.lastFailure = message ?? kind;
+  countOutcome(breaker, kind);
+  breaker.consecutiveChallenges = kind === 'challenge' ? breaker.consecutiveChallenges + 1 : 0;
+
+  if (breaker.state === 'half-open') {
+    trip(breaker, `probe failed: ${breaker.lastFailure}`);
+    return;
+  }
+  if (breaker.state === 'open') return;
+
+  breaker.outcomes.push(kind);
+  if (breaker.outcomes.length > WINDOW) breaker.outcomes.shift();
+
+  if (breaker.consecutiveChallenges >= CHALLENGE_LIMIT) {
+    trip(breaker, `${breaker.consecutiveChallenges} challenges in a row`);
+  } else if (breaker.outcomes.length >= MIN_SAMPLES && failureRate(breaker) >= FAILURE_RATE) {
+    trip(breaker, `failure rate ${Math.round(failureRate(breaker) * 100)}%`);
+  }
+}
+
+/**
+ * The request was cancelled by the caller — no verdict, but free a half-open probe slot
+ */
+export function recordCircuitAbort(host: string, proxy?: string | null): void {
+  getBreaker(host, proxy).probeInFlight = false;
+}
+
+export function isCircuitOpenError(message: string | null | undefined): boolean {
+  return !!message && message.startsWith(CIRCUIT_OPEN_PREFIX);
+}
+
+/**
+ * How long to hold work back while breakers are open: until the latest open breaker
+ * allows a probe (at least one cooldown when none is open anymore)
+ */
+export function getCircuitDeferMs(): number {
+  const now = Date.now();
+  const waits = Array.from(getBreakers().values())
+    .filter(breaker => breaker.state === 'open' && breaker.retryAt !== null)
+    .map(breaker => breaker.retryAt! - now);
+  return Math.max(COOLDOWN_MS, ...waits);
+}
+
+/**
+ * Upstream request outcomes across every breaker since the process started
+ */
+export function getUpstreamOutcomeTotals(): Record<Outcome, number> {
+  const totals: Record<Outcome, number> = { success: 0, error: 0, challenge: 0 };
+  for (const breaker of getBreakers().values()) {
+    if (!breaker.totals) continue;
+    totals.success += breaker.totals.success;
+    totals.error += breaker.totals.error;
+    totals.challenge += breaker.totals.challenge;
+  }
+  return totals;
+}
+
+export function getCircuitStates(): CircuitBreakerState[] {
+  return Array.from(getBreakers().values()).map(breaker => ({
+    key: breaker.key,
+    host: breaker.host,
+    egress: breaker.egress,
+    // An expired open breaker lets the next request probe
+    state: breaker.state === 'open' && Date.now() >= breaker.retryAt! ? 'half-open' : breaker.state,
+    failureRate: Math.round(failureRate(breaker) * 100) / 100,
+    samples: breaker.outcomes.length,
+    consecutiveChallenges: breaker.consecutiveChallenges,
+    trips: breaker.trips,
+    openedAt: breaker.openedAt ? new Date(breaker.openedAt).toISOString() : null,
+    retryAt: breaker.retryAt ? new Date(breaker.retryAt).toISOString() : null,
+    lastFailure: breaker.lastFailure,
+  }));
+}
@@ -5,7 +5,16 @@
  */
 
 import Database from 'better-sqlite3';
-import { TrafficData } from '@/types';
+import zlib from 'zlib';
+import {
+  CountryShare,
+  DomainProfile,
+  DomainRank,
+  KeywordEntry,
+  SourceMixPoint,
+  TrafficData,
+  TrafficOverride,
+} from '@/types';
 
 // Use SQLite for now (can be swapped for PostgreSQL later)
 let db: Database.Database | null = null;
@@ -52,8 +61,13 @@ function initializeSchema(database: Database.Database) {
       avg_session_duration_seconds INTEGER,
       bounce_rate REAL,
       pages_per_visit REAL,
+      global_rank INTEGER,
+      country_rank INTEGER,
       checked_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
       source TEXT DEFAULT 'traffic.cv',
+      provider TEXT, -- TrafficProvider name (fetch-proxy, playwright-bulk, ...)
+      rank_source TEXT, -- traffic.cv or rank list name
+      confidence REAL, -- 0-1 from provider reconciliation
       traffic_sources TEXT, -- JSON string
       created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
       updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
@@ -70,15 +84,220 @@ function initializeSchema(database: Database.Database) {
       avg_session_duration_seconds INTEGER,
       bounce_rate REAL,
       pages_per_visit REAL,
+      global_rank INTEGER,
+      country_rank INTEGER,
       checked_at TIMESTAMP NOT NULL,
       month_year TEXT NOT NULL,
       updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
       last_error TEXT,
+      provider TEXT,
+      rank_source TEXT,
+      confidence REAL,
       traffic_sources TEXT -- JSON string
     );
 
     CREATE INDEX IF NOT EXISTS idx_latest_checked_at ON traffic_latest(checked_at);
 
+    CREATE TABLE IF NOT EXISTS traffic_country_shares (
+      domain TEXT NOT NULL,
+      month_year TEXT NOT NULL,
+      country_code TEXT NOT NULL,
+      country_name TEXT,
+      share REAL NOT NULL, -- Percentage (0-100)
+      checked_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (domain, month_year, country_code)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_country_shares_domain_month ON traffic_country_shares(domain, month_year);
+
+    CREATE TABLE IF NOT EXISTS traffic_source_mix (
+      domain TEXT NOT NULL,
+      month_year TEXT NOT NULL,
+      search REAL, -- Percentages (0-100)
+      direct REAL,
+      social REAL,
+      mail REAL,
+      referrals REAL,
+      display REAL,
+      other REAL,
+      checked_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (domain, month_year)
+    );
+
+    CREATE TABLE IF NOT EXISTS traffic_keywords (
+      domain TEXT NOT NULL,
+      month_year TEXT NOT NULL,
+      keyword TEXT NOT NULL,
+      position INTEGER NOT NULL, -- Order as listed by traffic.cv
+      share REAL, -- Percentage of search traffic (0-100)
+      volume INTEGER,
+      cpc REAL,
+      checked_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (domain, month_year, keyword)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_keywords_domain_month ON traffic_keywords(domain, month_year);
+
+    CREATE TABLE IF NOT EXISTS raw_payloads (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      domain TEXT NOT NULL,
+      fetched_at TIMESTAMP NOT NULL,
+      source TEXT NOT NULL DEFAULT 'traffic.cv',
+      encoding TEXT NOT NULL DEFAULT 'gzip',
+      byte_length INTEGER NOT NULL, -- Uncompressed size
+      payload BLOB NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_raw_payloads_domain_fetched ON raw_payloads(domain, fetched_at);
+
+    CREATE TABLE IF NOT EXISTS domain_profile (
+      domain TEXT PRIMARY KEY,
+      registrar TEXT,
+      created_date TEXT, -- YYYY-MM-DD
+      expiry_date TEXT, -- YYYY-MM-DD
+      age_days INTEGER, -- Age at checked_at
+      checked_at TIMESTAMP NOT NULL,
+      updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+    );
+
+    CREATE TABLE IF NOT EXISTS domain_ranks (
+      domain TEXT NOT NULL,
+      list_name TEXT NOT NULL, -- e.g. tranco
+      rank INTEGER NOT NULL,
+      list_date TEXT, -- YYYY-MM-DD the list was published
+      imported_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (domain, list_name)
+    );
+
+    CREATE TABLE IF NOT EXISTS traffic_overrides (
+      domain TEXT NOT NULL,
+      month_year TEXT NOT NULL,
+      monthly_visits INTEGER, -- NULL = keep scraped value
+      avg_session_duration_seconds INTEGER,
+      bounce_rate REAL,
+      pages_per_visit REAL,
+      global_rank INTEGER,
+      note TEXT,
+      author TEXT,
+      created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (domain, month_year)
+    );
+
+    CREATE TABLE IF NOT EXISTS scrape_jobs (
+      id TEXT PRIMARY KEY,
+      kind TEXT NOT NULL DEFAULT 'bulk', -- bulk | retry | refresh
+      status TEXT NOT NULL DEFAULT 'queued', -- queued | running | paused | cancelled | completed
+      total_tasks INTEGER NOT NULL DEFAULT 0,
+      batch_size INTEGER NOT NULL DEFAULT 10,
+      created_at TEXT NOT NULL, -- ISO timestamps (compared as strings)
+      started_at TEXT,
+      finished_at TEXT,
+      updated_at TEXT NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_scrape_jobs_status ON scrape_jobs(status);
+
+    CREATE TABLE IF NOT EXISTS scrape_tasks (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      job_id TEXT NOT NULL REFERENCES scrape_jobs(id) ON DELETE CASCADE,
+      domain TEXT NOT NULL,
+      batch_index INTEGER NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending', -- pending | leased | done | failed | cancelled
+      attempts INTEGER NOT NULL DEFAULT 0,
+      max_attempts INTEGER NOT NULL DEFAULT 3,
+      next_attempt_at TEXT NOT NULL,
+      lease_owner TEXT,
+      lease_expires_at TEXT,
+      last_error TEXT,
+      started_at TEXT,
+      finished_at TEXT,
+      updated_at TEXT NOT NULL,
+      duplicate_of INTEGER -- Task in another job scraping the same domain; settled with it
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_scrape_tasks_due ON scrape_tasks(status, next_attempt_at);
+    CREATE INDEX IF NOT EXISTS idx_scrape_tasks_job_batch ON scrape_tasks(job_id, batch_index);
+
+    CREATE TABLE IF NOT EXISTS proxy_health (
+      proxy_id TEXT PRIMARY KEY, -- From lib/proxy-pool.ts; never contains credentials
+      kind TEXT NOT NULL, -- worker | http | direct
+      requests INTEGER NOT NULL DEFAULT 0,
+      successes INTEGER NOT NULL DEFAULT 0,
+      challenges INTEGER NOT NULL DEFAULT 0,
+      success_rate REAL NOT NULL DEFAULT 1, -- Moving averages
+      challenge_rate REAL NOT NULL DEFAULT 0,
+      latency_ms REAL,
+      consecutive_failures INTEGER NOT NULL DEFAULT 0,
+      quarantine_count INTEGER NOT NULL DEFAULT 0,
+      quarantined_until TEXT,
+      last_error TEXT,
+      last_success_at TEXT,
+      last_failure_at TEXT,
+      benchmarked_at TEXT,
+      updated_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS worker_heartbeats (
+      worker_id TEXT PRIMARY KEY, -- host:pid:nonce, one row per worker process
+      mode TEXT NOT NULL, -- embedded (inside Next.js) | standalone (scripts/scrape-worker.ts)
+      hostname TEXT NOT NULL,
+      pid INTEGER NOT NULL,
+      loops INTEGER NOT NULL,
+      active_batches INTEGER NOT NULL DEFAULT 0,
+      batches_done INTEGER NOT NULL DEFAULT 0,
+      rss_mb INTEGER,
+      stats TEXT, -- JSON snapshot of the process's browser pool / breakers
+      started_at TEXT NOT NULL,
+      last_beat_at TEXT NOT NULL,
+      stopped_at TEXT,
+      recycle_requested_at TEXT -- Set by POST /api/browser-pool, taken on the worker's next beat
+    );
+
+    CREATE TABLE IF NOT EXISTS controller_decisions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      decided_at TEXT NOT NULL,
+      process_id TEXT NOT NULL, -- host:pid of the worker that decided
+      direction TEXT NOT NULL, -- increase | decrease
+      reason TEXT NOT NULL,
+      previous TEXT NOT NULL, -- JSON settings before / after
+      next TEXT NOT NULL,
+      metrics TEXT NOT NULL -- JSON observations the decision was based on
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_controller_decisions_decided ON controller_decisions(decided_at);
+
+    CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+      key TEXT PRIMARY KEY, -- host|egress
+      host TEXT NOT NULL,
+      egress TEXT NOT NULL,
+      tokens REAL NOT NULL, -- Negative = reserved by callers still waiting (any process)
+      updated_at INTEGER NOT NULL, -- Epoch ms of the last refill
+      granted INTEGER NOT NULL DEFAULT 0,
+      total_wait_ms INTEGER NOT NULL DEFAULT 0,
+      last_granted_at TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS watchlists (
+      id TEXT PRIMARY KEY,
+      name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+      owner TEXT,
+      tags TEXT NOT NULL DEFAULT '[]', -- JSON array
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      last_refresh_at TEXT, -- When the monthly refresh last queued a job
+      last_refresh_job_id TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS watchlist_domains (
+      watchlist_id TEXT NOT NULL REFERENCES watchlists(id) ON DELETE CASCADE,
+      domain TEXT NOT NULL,
+      position INTEGER NOT NULL, -- Keeps the pasted order
+      PRIMARY KEY (watchlist_id, domain)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_watchlist_domains_domain ON watchlist_domains(domain);
+
     CREATE TABLE IF NOT EXISTS traffic_trends (
       domain TEXT NOT NULL,
       period_type TEXT NOT NULL,
@@ -126,30 +345,112 @@ function initializeSchema(database: Database.Database) {
 
   database.exec(schema);
 
-  // Migration: Add last_error column if it doesn't exist (safe to run on every startup)
-  try {
+  // Migrations (safe to run on every startup). Each step is guarded on its own, so one
+  // failure doesn't skip the rest; failures are logged with the step name.
+  runMigration(database, 'traffic_latest.last_error / traffic_sources', () => {
     // Check if column exists first to avoid error spam in logs
-    const tableInfo = database.pragma('table_info(traffic_latest)') as any[];
-    const hasLastError = tableInfo.some(col => col.name === 'last_error');
-
-    if (!hasLastError) {
+    const columns = getColumns(database, 'traffic_latest');
+    if (!columns.includes('last_error')) {
       database.exec('ALTER TABLE traffic_latest ADD COLUMN last_error TEXT');
     }
-
-    // Migration: Add traffic_sources column if it doesn't exist
-    const hasTrafficSourcesLatest = tableInfo.some(col => col.name === 'traffic_sources');
-    if (!hasTrafficSourcesLatest) {
+    if (!columns.includes('traffic_sources')) {
       database.exec('ALTER TABLE traffic_latest ADD COLUMN traffic_sources TEXT');
     }
+  });
 
-    const tableInfoSnapshots = database.pragma('table_info(traffic_snapshots)') as any[];
-    const hasTrafficSourcesSnapshots = tableInfoSnapshots.some(col => col.name === 'traffic_sources');
-    if (!hasTrafficSourcesSnapshots) {
+  runMigration(database, 'traffic_snapshots.traffic_sources', () => {
+    if (!getColumns(database, 'traffic_snapshots').includes('traffic_sources')) {
       database.exec('ALTER TABLE traffic_snapshots ADD COLUMN traffic_sources TEXT');
     }
+  });
+
+  // Rank columns on latest + snapshots
+  runMigration(database, 'global_rank / country_rank', () => {
+    for (const table of ['traffic_latest', 'traffic_snapshots']) {
+      const columns = getColumns(database, table);
+      for (const column of ['global_rank', 'country_rank']) {
+        if (!columns.includes(column)) {
+          database.exec(`ALTER TABLE ${table} ADD COLUMN ${column} INTEGER`);
+        }
+      }
+    }
+  });
+
+  // Record which provider (and rank source) produced each row, and how sure we are
+  runMigration(database, 'provider / rank_source / confidence', () => {
+    for (const table of ['traffic_latest', 'traffic_snapshots']) {
+      const columns = getColumns(database, table);
+      for (const column of ['provider', 'rank_source']) {
+        if (!columns.includes(column)) {
+          database.exec(`ALTER TABLE ${table} ADD COLUMN ${column} TEXT`);
+        }
+      }
+      if (!columns.includes('confidence')) {
+        database.exec(`ALTER TABLE ${table} ADD COLUMN confidence REAL`);
+      }
+    }
+  });
+
+  // Scheduler lane per scrape job (lib/scrape-scheduler.ts)
+  runMigration(database, 'scrape_jobs.priority', () => {
+    if (!getColumns(database, 'scrape_jobs').includes('priority')) {
+      database.exec("ALTER TABLE scrape_jobs ADD COLUMN priority TEXT NOT NULL DEFAULT 'bulk'");
+      database.exec("UPDATE scrape_jobs SET priority = 'maintenance' WHERE kind = 'retry'");
+    }
+  });
 
-  } catch (e) {
-    // Ignore errors if column addition fails
+  // Link tasks to an already-queued task for the same domain (single-flight across jobs)
+  runMigration(database, 'scrape_tasks.duplicate_of', () => {
+    if (!getColumns(database, 'scrape_tasks').includes('duplicate_of')) {
+      database.exec('ALTER TABLE scrape_tasks ADD COLUMN duplicate_of INTEGER');
+    }
+    database.exec('CREATE INDEX IF NOT EXISTS idx_scrape_tasks_duplicate ON scrape_tasks(duplicate_of)');
+  });
+
+  // Browser pool recycle requests for worker processes
+  runMigration(database, 'worker_heartbeats.recycle_requested_at', () => {
+    if (!getColumns(database, 'worker_heartbeats').includes('recycle_requested_at')) {
+      database.exec('ALTER TABLE worker_heartbeats ADD COLUMN recycle_requested_at TEXT');
+    }
+  });
+
+  // Seed source mix history from the JSON blobs already in traffic_snapshots
+  runMigration(database, 'traffic_source_mix seed', () => {
+    const sourceMixCount = database.prepare('SELECT COUNT(*) as count FROM traffic_source_mix').get() as any;
+    if (sourceMixCount.count === 0) {
+      database.exec(`
+        INSERT OR IGNORE INTO traffic_source_mix (
+          domain, month_year, search, direct, social, mail, referrals, display, other, checked_at
+        )
+        SELECT
+          domain, month_year,
+          json_extract(traffic_sources, '$.search'),
+          json_extract(traffic_sources, '$.direct'),
+          json_extract(traffic_sources, '$.social'),
+          json_extract(traffic_sources, '$.mail'),
+          json_extract(traffic_sources, '$.referrals'),
+          json_extract(traffic_sources, '$.display'),
+          json_extract(traffic_sources, '$.other'),
+          checked_at
+        FROM traffic_snapshots
+        WHERE traffic_sources IS NOT NULL AND json_valid(traffic_sources)
+      `);
+    }
+  });
+}
+
+function getColumns(database: Database.Database, table: string): string[] {
+  return (database.pragma(`table_info(${table})`) as any[]).map(col => col.name);
+}
+
+/**
+ * Run one schema migration step; a failure is logged and doesn't stop the others
+ */
+function runMigration(database: Database.Database, name: string, migrate: () => void): void {
+  try {
+    database.transaction(migrate)();
+  } catch (error) {
+    console.error(`[DB] Migration "${name}" failed:`, error);
   }
 }
 
@@ -161,6 +462,14 @@ export function getCurrentMonth(): string {
   return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
 }
 
+/**
+ * Get the YYYY-MM month a timestamp falls in (same local-time convention as getCurrentMonth)
+ */
+export function getMonthForTimestamp(timestamp: string): string {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
 /**
  * Convert seconds to formatted duration string (HH:MM:SS)
  * Example: 113 -> "00:01:53"
@@ -215,14 +524,20 @@ export function storeTrafficDataForMonth(
   const stmt = database.prepare(`
     INSERT INTO traffic_snapshots (
       domain, month_year, monthly_visits, avg_session_duration_seconds,
-      bounce_rate, pages_per_visit, checked_at, traffic_sources
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      bounce_rate, pages_per_visit, global_rank, country_rank, rank_source, checked_at, provider,
+      confidence, traffic_sources
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     ON CONFLICT(domain, month_year) DO UPDATE SET
       monthly_visits = excluded.monthly_visits,
       avg_session_duration_seconds = excluded.avg_session_duration_seconds,
       bounce_rate = excluded.bounce_rate,
       pages_per_visit = excluded.pages_per_visit,
+      global_rank = excluded.global_rank,
+      country_rank = excluded.country_rank,
+      rank_source = excluded.rank_source,
       checked_at = excluded.checked_at,
+      provider = excluded.provider,
+      confidence = excluded.confidence,
       traffic_sources = excluded.traffic_sources,
       updated_at = CURRENT_TIMESTAMP
   `);
@@ -234,9 +549,237 @@ export function storeTrafficDataForMonth(
     data.avgSessionDurationSeconds,
     data.bounceRate,
     data.pagesPerVisit,
+    data.globalRank ?? null,
+    data.countryRank ?? null,
+    data.rankSource ?? null,
     data.checkedAt || new Date().toISOString(),
+    data.provider ?? null,
+    data.confidence ?? null,
     data.trafficSources ? JSON.stringify(data.trafficSources) : null
   );
+
+  if (data.trafficSources) {
+    storeSourceMix(data.domain, monthYear, data.trafficSources, data.checkedAt);
+  }
+
+  if (data.topCountries) {
+    storeCountryShares(data.domain, monthYear, data.topCountries, data.checkedAt);
+  }
+
+  if (data.topKeywords) {
+    storeKeywords(data.domain, monthYear, data.topKeywords, data.checkedAt);
+  }
+}
+
+/**
+ * Upsert the traffic source split for a domain/month
+ */
+export function storeSourceMix(
+  domain: string,
+  monthYear: string,
+  sources: Record<string, number>,
+  checkedAt?: string | null
+): void {
+  const database = getDb();
+  database.prepare(`
+    INSERT INTO traffic_source_mix (
+      domain, month_year, search, direct, social, mail, referrals, display, other, checked_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(domain, month_year) DO UPDATE SET
+      search = excluded.search,
+      direct = excluded.direct,
+      social = excluded.social,
+      mail = excluded.mail,
+      referrals = excluded.referrals,
+      display = excluded.display,
+      other = excluded.other,
+      checked_at = excluded.checked_at
+  `).run(
+    domain,
+    monthYear,
+    sources.search ?? null,
+    sources.direct ?? null,
+    sources.social ?? null,
+    sources.mail ?? null,
+    sources.referrals ?? null,
+    sources.display ?? null,
+    sources.other ?? null,
+    checkedAt || new Date().toISOString()
+  );
+}
+
+/**
+ * Source mix per month for a domain, oldest first
+ */
+export function getSourceMixHistory(domain: string, months: number = 12): SourceMixPoint[] {
+  const database = getDb();
+  const rows = database.prepare(`
+    SELECT * FROM (
+      SELECT month_year, search, direct, social, mail, referrals, display, other
+      FROM traffic_source_mix
+      WHERE domain = ?
+      ORDER BY month_year DESC
+      LIMIT ?
+    ) ORDER BY month_year ASC
+  `).all(domain, months) as any[];
+
+  return rows.map(row => ({
+    monthYear: row.month_year,
+    search: row.search,
+    direct: row.direct,
+    social: row.social,
+    mail: row.mail,
+    referrals: row.referrals,
+    display: row.display,
+    other: row.other,
+  }));
+}
+
+/**
+ * Replace the country breakdown for a domain/month.
+ * Rows from sources without geography (Playwright DOM scrape) leave existing shares untouched.
+ */
+export function storeCountryShares(
+  domain: string,
+  monthYear: string,
+  countries: CountryShare[],
+  checkedAt?: string | null
+): void {
+  const database = getDb();
+  const deleteStmt = database.prepare(`
+    DELETE FROM traffic_country_shares WHERE domain = ? AND month_year = ?
+  `);
+  const insertStmt = database.prepare(`
+    INSERT OR REPLACE INTO traffic_country_shares (
+      domain, month_year, country_code, country_name, share, checked_at
+    ) VALUES (?, ?, ?, ?, ?, ?)
+  `);
+
+  const replaceAll = database.transaction(() => {
+    deleteStmt.run(domain, monthYear);
+    for (const country of countries) {
+      insertStmt.run(
+        domain,
+        monthYear,
+        country.countryCode,
+        country.countryName,
+        country.share,
+        checkedAt || new Date().toISOString()
+      );
+    }
+  });
+
+  replaceAll();
+}
+
+/**
+ * Replace the keyword list for a domain/month
+ */
+export function storeKeywords(
+  domain: string,
+  monthYear: string,
+  keywords: KeywordEntry[],
+  checkedAt?: string | null
+): void {
+  const database = getDb();
+  const deleteStmt = database.prepare(`
+    DELETE FROM traffic_keywords WHERE domain = ? AND month_year = ?
+  `);
+  const insertStmt = database.prepare(`
+    INSERT OR REPLACE INTO traffic_keywords (
+      domain, month_year, keyword, position, share, volume, cpc, checked_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  const replaceAll = database.transaction(() => {
+    deleteStmt.run(domain, monthYear);
+    keywords.forEach((entry, index) => {
+      insertStmt.run(
+        domain,
+        monthYear,
+        entry.keyword,
+        index + 1,
+        entry.share,
+        entry.volume,
+        entry.cpc,
+        checkedAt || new Date().toISOString()
+      );
+    });
+  });
+
+  replaceAll();
+}
+
+export interface DomainKeywords {
+  domain: string;
+  monthYear: string | null;
+  keywords: KeywordEntry[];
+}
+
+/**
+ * Get the keyword list for a domain.
+ * Defaults to the most recent month that has keywords stored.
+ */
+export function getKeywords(domain: string, monthYear?: string): DomainKeywords {
+  const database = getDb();
+  const withoutWww = domain.toLowerCase().trim().replace(/^www\./, '');
+  const withWww = `www.${withoutWww}`;
+
+  const month = monthYear || (database.prepare(`
+    SELECT MAX(month_year) AS month_year FROM traffic_keywords
+    WHERE domain = ? OR domain = ?
+  `).get(withoutWww, withWww) as any)?.month_year;
+
+  if (!month) {
+    return { domain, monthYear: null, keywords: [] };
+  }
+
+  const rows = database.prepare(`
+    SELECT keyword, share, volume, cpc FROM traffic_keywords
+    WHERE (domain = ? OR domain = ?) AND month_year = ?
+    ORDER BY position ASC
+  `).all(withoutWww, withWww, month) as any[];
+
+  return {
+    domain,
+    monthYear: month,
+    keywords: rows.map(row => ({
+      keyword: row.keyword,
+      share: row.share,
+      volume: row.volume,
+      cpc: row.cpc,
+    })),
+  };
+}
+
+/**
+ * Get country shares for the month currently held in traffic_latest, keyed by DB domain
+ */
+function getLatestCountrySharesBatch(dbDomains: string[]): Map<string, CountryShare[]> {
+  const result = new Map<string, CountryShare[]>();
+  if (dbDomains.length === 0) return result;
+
+  const database = getDb();
+  const placeholders = dbDomains.map(() => '?').join(',');
+  const rows = database.prepare(`
+    SELECT c.domain, c.country_code, c.country_name, c.share
+    FROM traffic_country_shares c
+    JOIN traffic_latest l ON l.domain = c.domain AND l.month_year = c.month_year
+    WHERE c.domain IN (${placeholders})
+    ORDER BY c.domain, c.share DESC
+  `).all(...dbDomains) as any[];
+
+  for (const row of rows) {
+    const list = result.get(row.domain) || [];
+    list.push({
+      countryCode: row.country_code,
+      countryName: row.country_name,
+      share: row.share,
+    });
+    result.set(row.domain, list);
+  }
+
+  return result;
 }
 
 /**
@@ -277,13 +820,12 @@ export function storeTrafficError(domain: string, error: string): void {
   stmt.run(domain, new Date().toISOString(), monthYear, error);
 }
 
-export function storeTrafficData(data: TrafficData): void {
+export function storeTrafficData(data: TrafficData, monthYear: string = getCurrentMonth()): void {
   if (!isTrafficRecordUsable(data)) {
     console.warn(`[DB] Skipping incomplete cache write for ${data.domain} (monthlyVisits=null)`);
     return;
   }
 
-  const monthYear = getCurrentMonth();
   storeTrafficDataForMonth(data, monthYear);
 
   // Update latest cache
@@ -291,16 +833,22 @@ export function storeTrafficData(data: TrafficData): void {
   const latestStmt = database.prepare(`
     INSERT INTO traffic_latest (
       domain, monthly_visits, avg_session_duration_seconds,
-      bounce_rate, pages_per_visit, checked_at, month_year, last_error, traffic_sources
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      bounce_rate, pages_per_visit, global_rank, country_rank, rank_source,
+      checked_at, month_year, last_error, provider, confidence, traffic_sources
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     ON CONFLICT(domain) DO UPDATE SET
       monthly_visits = excluded.monthly_visits,
       avg_session_duration_seconds = excluded.avg_session_duration_seconds,
       bounce_rate = excluded.bounce_rate,
       pages_per_visit = excluded.pages_per_visit,
+      global_rank = excluded.global_rank,
+      country_rank = excluded.country_rank,
+      rank_source = excluded.rank_source,
       checked_at = excluded.checked_at,
       month_year = excluded.month_year,
       last_error = excluded.last_error,
+      provider = excluded.provider,
+      confidence = excluded.confidence,
       traffic_sources = excluded.traffic_sources,
       updated_at = CURRENT_TIMESTAMP
   `);
@@ -311,11 +859,97 @@ export function storeTrafficData(data: TrafficData): void {
     data.avgSessionDurationSeconds,
     data.bounceRate,
     data.pagesPerVisit,
+    data.globalRank ?? null,
+    data.countryRank ?? null,
+    data.rankSource ?? null,
     data.checkedAt || new Date().toISOString(),
     monthYear,
     data.error || null,
+    data.provider ?? null,
+    data.confidence ?? null,
     data.trafficSources ? JSON.stringify(data.trafficSources) : null
   );
+
+  if (data.domainProfile) {
+    storeDomainProfile(data.domain, data.domainProfile, data.checkedAt);
+  }
+}
+
+/**
+ * Upsert WHOIS details for a domain (refreshed on every scrape)
+ */
+export function storeDomainProfile(
+  domain: string,
+  profile: DomainProfile,
+  checkedAt?: string | null
+): void {
+  const database = getDb();
+  database.prepare(`
+    INSERT INTO domain_profile (
+      domain, registrar, created_date, expiry_date, age_days, checked_at
+    ) VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT(domain) DO UPDATE SET
+      registrar = COALESCE(excluded.registrar, registrar),
+      created_date = COALESCE(excluded.created_date, created_date),
+      expiry_date = COALESCE(excluded.expiry_date, expiry_date),
+      age_days = COALESCE(excluded.age_days, age_days),
+      checked_at = excluded.checked_at,
+      updated_at = CURRENT_TIMESTAMP
+  `).run(
+    domain,
+    profile.registrar,
+    profile.createdAt,
+    profile.expiresAt,
+    profile.ageDays,
+    checkedAt || new Date().toISOString()
+  );
+}
+
+function mapProfileRow(row: any): DomainProfile {
+  // Age keeps counting between scrapes; prefer the registry creation date when known
+  const dayMs = 1000 * 60 * 60 * 24;
+  let ageDays: number | null = null;
+  if (row.created_date) {
+    ageDays = Math.floor((Date.now() - new Date(row.created_date).getTime()) / dayMs);
+  } else if (row.age_days !== null && row.age_days !== undefined) {
+    ageDays = row.age_days + Math.floor((Date.now() - new Date(row.checked_at).getTime()) / dayMs);
+  }
+
+  return {
+    registrar: row.registrar,
+    createdAt: row.created_date,
+    expiresAt: row.expiry_date,
+    ageDays,
+  };
+}
+
+/**
+ * Get WHOIS details for a domain (checks both www. and non-www.)
+ */
+export function getDomainProfile(domain: string): DomainProfile | null {
+  const withoutWww = domain.toLowerCase().trim().replace(/^www\./, '');
+  const profiles = getDomainProfilesBatch([withoutWww, `www.${withoutWww}`]);
+  return profiles.get(withoutWww) || profiles.get(`www.${withoutWww}`) || null;
+}
+
+/**
+ * Get WHOIS details keyed by DB domain
+ */
+function getDomainProfilesBatch(dbDomains: string[]): Map<string, DomainProfile> {
+  const result = new Map<string, DomainProfile>();
+  if (dbDomains.length === 0) return result;
+
+  const database = getDb();
+  const placeholders = dbDomains.map(() => '?').join(',');
+  const rows = database.prepare(`
+    SELECT * FROM domain_profile WHERE domain IN (${placeholders})
+  `).all(...dbDomains) as any[];
+
+  for (const row of rows) {
+    result.set(row.domain, mapProfileRow(row));
+  }
+
+  return result;
 }
 
 /**
@@ -338,55 +972,443 @@ export function storeHistoricalTrafficData(
   const stmt = database.prepare(`
     INSERT INTO traffic_snapshots (
       domain, month_year, monthly_visits, avg_session_duration_seconds,
-      bounce_rate, pages_per_visit, checked_at
-    ) VALUES (?, ?, ?, ?, ?, ?, ?)
+      bounce_rate, pages_per_visit, checked_at, provider
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
     ON CONFLICT(domain, month_year) DO UPDATE SET
       monthly_visits = excluded.monthly_visits,
       checked_at = excluded.checked_at,
+      provider = excluded.provider,
       updated_at = CURRENT_TIMESTAMP
   `);
 
-  for (const monthData of monthlyData) {
-    // For historical months, we only have visits data
-    // Use current month's metrics (duration, bounce rate, etc.) as fallback
-    // This is reasonable since these metrics don't change dramatically month-to-month
-    stmt.run(
-      domain,
-      monthData.monthYear,
-      monthData.monthlyVisits,
-      currentData.avgSessionDurationSeconds, // Use current month's duration
-      currentData.bounceRate, // Use current month's bounce rate
-      currentData.pagesPerVisit, // Use current month's pages per visit
-      checkedAt
-    );
+  // One transaction: the flight payload carries the full series, not just 3 months
+  const storeAll = database.transaction(() => {
+    for (const monthData of monthlyData) {
+      // For historical months, we only have visits data
+      // Use current month's metrics (duration, bounce rate, etc.) as fallback
+      // This is reasonable since these metrics don't change dramatically month-to-month
+      stmt.run(
+        domain,
+        monthData.monthYear,
+        monthData.monthlyVisits,
+        currentData.avgSessionDurationSeconds, // Use current month's duration
+        currentData.bounceRate, // Use current month's bounce rate
+        currentData.pagesPerVisit, // Use current month's pages per visit
+        checkedAt,
+        currentData.provider ?? null
+      );
+    }
+  });
+
+  storeAll();
+}
+
+/**
+ * Store a scrape result plus any monthly history it carries
+ */
+export function storeTrafficDataWithHistory(data: TrafficData, monthYear?: string): void {
+  storeTrafficData(data, monthYear);
+
+  if (!data.error && data.historicalMonths && data.historicalMonths.length > 0) {
+    storeHistoricalTrafficData(data.domain, data.historicalMonths, data);
   }
 }
 
+/** Imports are written under this prefix and swapped in when complete; lookups skip them */
+const RANK_LIST_STAGING_PREFIX = 'staging:';
+
+export function getRankListStagingName(listName: string): string {
+  return `${RANK_LIST_STAGING_PREFIX}${listName}`;
+}
+
 /**
- * Get latest traffic data for a domain (current month)
+ * Drop every entry of a rank list (e.g. a staging import left behind by a crash)
  */
-export function getLatestTrafficData(domain: string): TrafficData | null {
+export function clearRankList(listName: string): number {
+  const database = getDb();
+  return database.prepare('DELETE FROM domain_ranks WHERE list_name = ?').run(listName).changes;
+}
+
+/**
+ * Replace a rank list with its completed staging import in one transaction.
+ * Returns how many entries of the previous import were replaced.
+ */
+export function promoteRankList(listName: string): number {
+  const database = getDb();
+  const promote = database.transaction(() => {
+    const removed = clearRankList(listName);
+    database
+      .prepare('UPDATE domain_ranks SET list_name = ? WHERE list_name = ?')
+      .run(listName, getRankListStagingName(listName));
+    return removed;
+  });
+  return promote();
+}
+
+/**
+ * Upsert a chunk of rank list entries
+ */
+export function storeDomainRanks(
+  listName: string,
+  listDate: string | null,
+  entries: { domain: string; rank: number }[]
+): void {
   const database = getDb();
   const stmt = database.prepare(`
-    SELECT * FROM traffic_latest WHERE domain = ?
+    INSERT INTO domain_ranks (domain, list_name, rank, list_date)
+    VALUES (?, ?, ?, ?)
+    ON CONFLICT(domain, list_name) DO UPDATE SET
+      rank = excluded.rank,
+      list_date = excluded.list_date,
+      imported_at = CURRENT_TIMESTAMP
   `);
 
-  const row = stmt.get(domain) as any;
-  if (!row) return null;
+  const storeAll = database.transaction(() => {
+    for (const entry of entries) {
+      stmt.run(entry.domain, listName, entry.rank, listDate);
+    }
+  });
+
+  storeAll();
+}
+
+/**
+ * Best (lowest) list rank per domain across all imported lists
+ */
+export function getDomainRanksBatch(dbDomains: string[]): Map<string, DomainRank> {
+  const result = new Map<string, DomainRank>();
+  if (dbDomains.length === 0) return result;
+
+  const database = getDb();
+  const placeholders = dbDomains.map(() => '?').join(',');
+  const rows = database.prepare(`
+    SELECT domain, list_name, rank, list_date FROM domain_ranks
+    WHERE domain IN (${placeholders}) AND list_name NOT LIKE '${RANK_LIST_STAGING_PREFIX}%'
+    ORDER BY rank ASC
+  `).all(...dbDomains) as any[];
+
+  for (const row of rows) {
+    if (result.has(row.domain)) continue;
+    result.set(row.domain, {
+      rank: row.rank,
+      listName: row.list_name,
+      listDate: row.list_date,
+    });
+  }
+
+  return result;
+}
 
+/**
+ * Override columns mapped to TrafficData fields
+ */
+const OVERRIDE_FIELDS = [
+  ['monthly_visits', 'monthlyVisits'],
+  ['avg_session_duration_seconds', 'avgSessionDurationSeconds'],
+  ['bounce_rate', 'bounceRate'],
+  ['pages_per_visit', 'pagesPerVisit'],
+  ['global_rank', 'globalRank'],
+] as const;
+
+function mapOverrideRow(row: any): TrafficOverride {
   return {
     domain: row.domain,
+    monthYear: row.month_year,
+    monthlyVisits: row.monthly_visits,
+    avgSessionDurationSeconds: row.avg_session_duration_seconds,
+    bounceRate: row.bounce_rate,
+    pagesPerVisit: row.pages_per_visit,
+    globalRank: row.global_rank,
+    note: row.note,
+    author: row.author,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Create or replace the override for a domain/month
+ */
+export function upsertTrafficOverride(override: Omit<TrafficOverride, 'updatedAt'>): TrafficOverride {
+  const database = getDb();
+  database.prepare(`
+    INSERT INTO traffic_overrides (
+      domain, month_year, monthly_visits, avg_session_duration_seconds,
+      bounce_rate, pages_per_visit, global_rank, note, author
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(domain, month_year) DO UPDATE SET
+      monthly_visits = excluded.monthly_visits,
+      avg_session_duration_seconds = excluded.avg_session_duration_seconds,
+      bounce_rate = excluded.bounce_rate,
+      pages_per_visit = excluded.pages_per_visit,
+      global_rank = excluded.global_rank,
+      note = excluded.note,
+      author = excluded.author,
+      updated_at = CURRENT_TIMESTAMP
+  `).run(
+    override.domain,
+    override.monthYear,
+    override.monthlyVisits,
+    override.avgSessionDurationSeconds,
+    override.bounceRate,
+    override.pagesPerVisit,
+    override.globalRank,
+    override.note,
+    override.author
+  );
+
+  const row = database.prepare(`
+    SELECT * FROM traffic_overrides WHERE domain = ? AND month_year = ?
+  `).get(override.domain, override.monthYear);
+  return mapOverrideRow(row);
+}
+
+export function deleteTrafficOverride(domain: string, monthYear: string): boolean {
+  const database = getDb();
+  return database.prepare(`
+    DELETE FROM traffic_overrides WHERE domain = ? AND month_year = ?
+  `).run(domain, monthYear).changes > 0;
+}
+
+/**
+ * All overrides for a domain, newest month first
+ */
+export function getTrafficOverrides(domain: string): TrafficOverride[] {
+  const database = getDb();
+  const rows = database.prepare(`
+    SELECT * FROM traffic_overrides WHERE domain = ? ORDER BY month_year DESC
+  `).all(domain) as any[];
+  return rows.map(mapOverrideRow);
+}
+
+/**
+ * Newest override per domain
+ */
+function getLatestOverridesBatch(dbDomains: string[]): Map<string, TrafficOverride> {
+  const result = new Map<string, TrafficOverride>();
+  if (dbDomains.length === 0) return result;
+
+  const database = getDb();
+  const placeholders = dbDomains.map(() => '?').join(',');
+  const rows = database.prepare(`
+    SELECT * FROM traffic_overrides
+    WHERE domain IN (${placeholders})
+    ORDER BY month_year DESC
+  `).all(...dbDomains) as any[];
+
+  for (const row of rows) {
+    if (!result.has(row.domain)) result.set(row.domain, mapOverrideRow(row));
+  }
+  return result;
+}
+
+/**
+ * Stored domain spellings a request may match (with and without www.)
+ */
+function wwwVariations(domain: string): string[] {
+  const withoutWww = domain.toLowerCase().trim().replace(/^www\./, '');
+  return [withoutWww, `www.${withoutWww}`];
+}
+
+function findOverride(overrides: Map<string, TrafficOverride>, domain: string): TrafficOverride | undefined {
+  for (const variation of wwwVariations(domain)) {
+    const override = overrides.get(variation);
+    if (override) return override;
+  }
+  return undefined;
+}
+
+/**
+ * Lay an override over a row. Only applies when the override is for the row's month or newer,
+ * so correcting an old month never rewrites the latest numbers.
+ */
+function applyOverride(data: TrafficData, override: TrafficOverride | undefined, rowMonth: string): TrafficData {
+  if (!override || override.monthYear < rowMonth) return data;
+
+  const merged: TrafficData = { ...data, annotation: override.note };
+  const overriddenFields: string[] = [];
+
+  for (const [, field] of OVERRIDE_FIELDS) {
+    const value = override[field];
+    if (value === null || value === undefined) continue;
+    merged[field] = value;
+    overriddenFields.push(field);
+  }
+
+  if (overriddenFields.length === 0) return merged;
+
+  if (overriddenFields.includes('avgSessionDurationSeconds')) {
+    merged.avgSessionDuration = formatDurationFromSeconds(merged.avgSessionDurationSeconds);
+  }
+  if (overriddenFields.includes('globalRank')) {
+    merged.rankSource = 'manual';
+  }
+
+  return {
+    ...merged,
+    source: 'manual',
+    overriddenFields,
+    error: null,
+  };
+}
+
+/**
+ * Apply stored overrides to freshly scraped rows (stored under the current month)
+ */
+export function applyTrafficOverrides(rows: TrafficData[]): TrafficData[] {
+  const overrides = getLatestOverridesBatch(rows.flatMap(row => wwwVariations(row.domain)));
+  if (overrides.size === 0) return rows;
+
+  const monthYear = getCurrentMonth();
+  return rows.map(row => applyOverride(row, findOverride(overrides, row.domain), monthYear));
+}
+
+function overrideOnlyRow(domain: string, override: TrafficOverride): TrafficData {
+  return applyOverride(
+    {
+      domain,
+      monthlyVisits: null,
+      avgSessionDuration: null,
+      avgSessionDurationSeconds: null,
+      bounceRate: null,
+      pagesPerVisit: null,
+      checkedAt: override.updatedAt,
+      trafficSources: null,
+      error: null,
+    },
+    override,
+    override.monthYear
+  );
+}
+
+/**
+ * Map a traffic_latest row to the API shape
+ */
+interface LatestRowEnrichment {
+  topCountries?: CountryShare[];
+  domainProfile?: DomainProfile;
+  listRank?: DomainRank;
+}
+
+function mapLatestRow(row: any, domain: string, enrichment: LatestRowEnrichment = {}): TrafficData {
+  const { topCountries, domainProfile, listRank } = enrichment;
+
+  // traffic.cv had no usable data — fall back to the imported rank list
+  const useListRank = row.global_rank == null && !row.monthly_visits && listRank;
+
+  return {
+    domain,
     monthlyVisits: row.monthly_visits,
     avgSessionDuration: formatDurationFromSeconds(row.avg_session_duration_seconds),
     avgSessionDurationSeconds: row.avg_session_duration_seconds,
     bounceRate: row.bounce_rate,
     pagesPerVisit: row.pages_per_visit,
+    globalRank: useListRank ? listRank.rank : row.global_rank ?? null,
+    countryRank: row.country_rank ?? null,
+    rankSource: useListRank
+      ? listRank.listName
+      : row.rank_source ?? (row.global_rank != null ? 'traffic.cv' : null),
     checkedAt: row.checked_at,
     trafficSources: row.traffic_sources ? JSON.parse(row.traffic_sources) : null,
-    error: null,
+    topCountries: topCountries && topCountries.length > 0 ? topCountries : null,
+    domainProfile: domainProfile || null,
+    provider: row.provider ?? null,
+    confidence: row.confidence ?? null,
+    error: row.last_error || null,
   };
 }
 
+/**
+ * Archive a raw traffic.cv response (gzip) so parser fixes can be replayed offline
+ */
+export function archiveRawPayload(
+  domain: string,
+  body: string,
+  fetchedAt: string = new Date().toISOString(),
+  source: string = 'traffic.cv'
+): void {
+  const database = getDb();
+  database.prepare(`
+    INSERT INTO raw_payloads (domain, fetched_at, source, encoding, byte_length, payload)
+    VALUES (?, ?, ?, 'gzip', ?, ?)
+  `).run(domain, fetchedAt, source, Buffer.byteLength(body), zlib.gzipSync(body));
+}
+
+export interface RawPayloadRef {
+  id: number;
+  domain: string;
+  fetchedAt: string;
+  source: string;
+}
+
+/**
+ * List archived payloads (without bodies), oldest first per domain
+ */
+export function listRawPayloads(options: { domain?: string; since?: string } = {}): RawPayloadRef[] {
+  const database = getDb();
+  const conditions: string[] = [];
+  const params: string[] = [];
+
+  if (options.domain) {
+    conditions.push('domain = ?');
+    params.push(options.domain);
+  }
+  if (options.since) {
+    conditions.push('fetched_at >= ?');
+    params.push(options.since);
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const rows = database.prepare(`
+    SELECT id, domain, fetched_at, source FROM raw_payloads
+    ${where}
+    ORDER BY domain, fetched_at ASC
+  `).all(...params) as any[];
+
+  return rows.map(row => ({
+    id: row.id,
+    domain: row.domain,
+    fetchedAt: row.fetched_at,
+    source: row.source,
+  }));
+}
+
+/**
+ * Load and decompress one archived payload
+ */
+export function readRawPayload(id: number): string | null {
+  const database = getDb();
+  const row = database.prepare(`
+    SELECT encoding, payload FROM raw_payloads WHERE id = ?
+  `).get(id) as any;
+  if (!row) return null;
+
+  return row.encoding === 'gzip'
+    ? zlib.gunzipSync(row.payload).toString('utf8')
+    : Buffer.from(row.payload).toString('utf8');
+}
+
+/**
+ * Delete archived payloads older than N days
+ */
+export function cleanupRawPayloads(keepDays: number = 365): number {
+  const database = getDb();
+  const cutoff = new Date();
+  cutoff.setDate(cutoff.getDate() - keepDays);
+
+  return database.prepare(`
+    DELETE FROM raw_payloads WHERE fetched_at < ?
+  `).run(cutoff.toISOString()).changes;
+}
+
+/**
+ * Get latest traffic data for a domain (current month)
+ */
+export function getLatestTrafficData(domain: string): TrafficData | null {
+  // Same www. handling and override lookup as the batch path
+  const data = getLatestTrafficDataBatch([domain]).get(domain);
+  return data ? { ...data, error: null } : null;
+}
+
 /**
  * Get traffic data for multiple domains (latest)
  * Handles www. variations by checking both with and without www.
@@ -400,9 +1422,7 @@ export function getLatestTrafficDataBatch(domains: string[]): Map<string, Traffi
   const domainVariationMap = new Map<string, string>(); // db domain variation -> original request domain
 
   for (const domain of domains) {
-    const normalized = domain.toLowerCase().trim();
-    const withoutWww = normalized.replace(/^www\./, '');
-    const withWww = `www.${withoutWww}`;
+    const [withoutWww, withWww] = wwwVariations(domain);
 
     // Map both variations to the original request domain
     domainVariationMap.set(withoutWww, domain);
@@ -429,6 +1449,11 @@ export function getLatestTrafficDataBatch(domains: string[]): Map<string, Traffi
   `);
 
   const rows = stmt.all(...allDomainVariations) as any[];
+  const rowDomains = rows.map(row => row.domain);
+  const countries = getLatestCountrySharesBatch(rowDomains);
+  const profiles = getDomainProfilesBatch(rowDomains);
+  const listRanks = getDomainRanksBatch(rowDomains);
+  const overrides = getLatestOverridesBatch(allDomainVariations);
 
   // Map database results back to original request domains
   for (const row of rows) {
@@ -438,21 +1463,32 @@ export function getLatestTrafficDataBatch(domains: string[]): Map<string, Traffi
     if (originalRequestDomain) {
       // Only add if we haven't already added this domain (avoid duplicates)
       if (!result.has(originalRequestDomain)) {
-        result.set(originalRequestDomain, {
-          domain: originalRequestDomain, // Use original request domain
-          monthlyVisits: row.monthly_visits,
-          avgSessionDuration: formatDurationFromSeconds(row.avg_session_duration_seconds),
-          avgSessionDurationSeconds: row.avg_session_duration_seconds,
-          bounceRate: row.bounce_rate,
-          pagesPerVisit: row.pages_per_visit,
-          checkedAt: row.checked_at,
-          trafficSources: row.traffic_sources ? JSON.parse(row.traffic_sources) : null,
-          error: row.last_error || null,
-        });
+        // Use original request domain
+        result.set(
+          originalRequestDomain,
+          applyOverride(
+            mapLatestRow(row, originalRequestDomain, {
+              topCountries: countries.get(dbDomain),
+              domainProfile: profiles.get(dbDomain),
+              listRank: listRanks.get(dbDomain),
+            }),
+            findOverride(overrides, dbDomain),
+            row.month_year
+          )
+        );
       }
     }
   }
 
+  // Analyst numbers for domains we never scraped successfully
+  for (const domain of domains) {
+    const override = findOverride(overrides, domain);
+    if (override && !result.has(domain)) {
+      const row = overrideOnlyRow(domain, override);
+      if (row.source === 'manual') result.set(domain, row);
+    }
+  }
+
   return result;
 }
 
@@ -550,22 +1586,40 @@ export interface HistoricalData {
   monthly_visits: number | null;
   bounce_rate: number | null;
   pages_per_visit: number | null;
+  source: 'manual' | 'scraped';
 }
 
+/**
+ * Monthly history, newest first. Manual overrides win over scraped values field by field.
+ */
 export function getHistoricalData(
   domain: string,
   months: number = 12
 ): HistoricalData[] {
   const database = getDb();
   const stmt = database.prepare(`
-    SELECT month_year, monthly_visits, bounce_rate, pages_per_visit
-    FROM traffic_snapshots
-    WHERE domain = ?
-    ORDER BY month_year DESC
+    SELECT
+      m.month_year,
+      COALESCE(o.monthly_visits, s.monthly_visits) as monthly_visits,
+      COALESCE(o.bounce_rate, s.bounce_rate) as bounce_rate,
+      COALESCE(o.pages_per_visit, s.pages_per_visit) as pages_per_visit,
+      CASE
+        WHEN o.monthly_visits IS NOT NULL OR o.bounce_rate IS NOT NULL OR o.pages_per_visit IS NOT NULL
+          OR o.avg_session_duration_seconds IS NOT NULL OR o.global_rank IS NOT NULL
+        THEN 'manual' ELSE 'scraped'
+      END as source
+    FROM (
+      SELECT month_year FROM traffic_snapshots WHERE domain = ?
+      UNION
+      SELECT month_year FROM traffic_overrides WHERE domain = ?
+    ) m
+    LEFT JOIN traffic_snapshots s ON s.domain = ? AND s.month_year = m.month_year
+    LEFT JOIN traffic_overrides o ON o.domain = ? AND o.month_year = m.month_year
+    ORDER BY m.month_year DESC
     LIMIT ?
   `);
 
-  return stmt.all(domain, months) as HistoricalData[];
+  return stmt.all(domain, domain, domain, domain, months) as HistoricalData[];
 }
 
 /**
@@ -574,17 +1628,8 @@ export function getHistoricalData(
  * Returns null if insufficient data
  */
 export function calculateGrowthRate(domain: string): number | null {
-  const database = getDb();
-  // Get last 2 months of data to calculate growth
-  const stmt = database.prepare(`
-    SELECT month_year, monthly_visits
-    FROM traffic_snapshots
-    WHERE domain = ?
-    ORDER BY month_year DESC
-    LIMIT 2
-  `);
-
-  const rows = stmt.all(domain) as Array<{ month_year: string; monthly_visits: number | null }>;
+  // Get last 2 months of data to calculate growth (manual overrides included)
+  const rows = getHistoricalData(domain, 2);
 
   if (rows.length < 2) {
     return null; // Need at least 2 months of data
@@ -691,6 +1736,26 @@ export function getStaleDomains(maxAgeDays: number = 30): string[] {
   return rows.map(row => row.domain);
 }
 
+/**
+ * Get domains with visits in traffic_latest but fewer than `minMonths` snapshots
+ */
+export function getDomainsNeedingHistory(minMonths: number = 6, limit: number = 1000): string[] {
+  const database = getDb();
+  const stmt = database.prepare(`
+    SELECT l.domain
+    FROM traffic_latest l
+    LEFT JOIN traffic_snapshots s ON s.domain = l.domain
+    WHERE l.monthly_visits > 0
+    GROUP BY l.domain
+    HAVING COUNT(s.id) < ?
+    ORDER BY l.monthly_visits DESC
+    LIMIT ?
+  `);
+
+  const rows = stmt.all(minMonths, limit) as any[];
+  return rows.map(row => row.domain);
+}
+
 /**
  * Clean up old data (optional: keep only last N months)
  */
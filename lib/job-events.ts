@@ -0,0 +1,36 @@
+/**
+ * In-process notifications for scrape job changes
+ *
+ * The queue worker calls notifyJobUpdate() after it leases or settles a batch; SSE
+ * streams subscribe and re-read the job from SQLite. A worker in another process can't
+ * reach these listeners, so streams also re-check on a timer.
+ */
+
+import { EventEmitter } from 'events';
+
+// One emitter per process, also across Next.js dev hot reloads
+const globalForEvents = globalThis as unknown as { __tlJobEvents?: EventEmitter };
+
+function getEmitter(): EventEmitter {
+  if (!globalForEvents.__tlJobEvents) {
+    const emitter = new EventEmitter();
+    emitter.setMaxListeners(0); // One listener per open browser stream
+    globalForEvents.__tlJobEvents = emitter;
+  }
+  return globalForEvents.__tlJobEvents;
+}
+
+export function notifyJobUpdate(jobId: string): void {
+  getEmitter().emit(jobId);
+}
+
+/**
+ * Call `listener` whenever the job changes; returns the unsubscribe function
+ */
+export function subscribeJobUpdates(jobId: string, listener: () => void): () => void {
+  const emitter = getEmitter();
+  emitter.on(jobId, listener);
+  return () => {
+    emitter.off(jobId, listener);
+  };
+}
@@ -8,7 +8,7 @@ function deriveStatus(row: ApiTrafficData): TrafficStatus {
   if (row.error) {
     return "error";
   }
-  if (row.monthlyVisits === null && !row.avgSessionDurationSeconds) {
+  if (row.monthlyVisits === null && !row.avgSessionDurationSeconds && row.globalRank == null) {
     return "pending";
   }
   return "success";
@@ -18,10 +18,27 @@ export function normalizeTrafficRow(row: ApiTrafficData): TrafficData {
   return {
     domain: row.domain,
     monthlyVisits: row.monthlyVisits ?? null,
+    visitsEstimated: row.estimated === true,
+    visitsLow: row.visitsEstimate?.low ?? null,
+    visitsHigh: row.visitsEstimate?.high ?? null,
     growth: null,
     avgDuration: row.avgSessionDurationSeconds ?? null,
     pagesPerVisit: row.pagesPerVisit ?? null,
     bounceRate: row.bounceRate ?? null,
+    globalRank: row.globalRank ?? null,
+    countryRank: row.countryRank ?? null,
+    rankSource: row.rankSource ?? null,
+    topCountries: row.topCountries ?? null,
+    domainAgeDays: row.domainProfile?.ageDays ?? null,
+    registrar: row.domainProfile?.registrar ?? null,
+    domainCreatedAt: row.domainProfile?.createdAt ?? null,
+    domainExpiresAt: row.domainProfile?.expiresAt ?? null,
+    provider: row.provider ?? null,
+    confidence: row.confidence ?? null,
+    conflicts: row.conflicts?.map((conflict) => conflict.field) ?? [],
+    source: row.source ?? null,
+    overriddenFields: row.overriddenFields ?? [],
+    annotation: row.annotation ?? null,
     status: deriveStatus(row),
     error: row.error,
   };
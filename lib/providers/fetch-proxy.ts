@@ -0,0 +1,12 @@
+/**
+ * traffic.cv flight payload via the Cloudflare worker proxy (fast, no browser)
+ */
+
+import { fetchTrafficCvBatch } from '../trafficcv-fetch';
+import { TrafficProvider } from './types';
+
+export const fetchProxyProvider: TrafficProvider = {
+  name: 'fetch-proxy',
+  maxBatchSize: 10,
+  fetchBatch: (domains, signal) => fetchTrafficCvBatch(domains, signal),
+};
@@ -0,0 +1,182 @@
+/**
+ * Ordered traffic provider chain
+ *
+ * TL_PROVIDER_CHAIN lists provider names in the order they are tried, e.g.
+ * "fetch-proxy,playwright-bulk". Each domain falls through to the next provider
+ * while its row is incomplete — unresolved, or resolved with engagement metrics
+ * missing; rows from every provider that answered are reconciled field by field
+ * (lib/reconcile.ts), and every row records which provider(s) produced it.
+ */
+
+import { TrafficData } from '@/types';
+import { chunkArray } from '../domain-utils';
+import { reconcileTrafficRows } from '../reconcile';
+import { runScheduled, ScrapePriority } from '../scrape-scheduler';
+import { fetchProxyProvider } from './fetch-proxy';
+import { fixtureProvider } from './fixture';
+import { mockProvider } from './mock';
+import { playwrightBulkProvider } from './playwright-bulk';
+import { fillRanksFromList, rankListProvider } from './rank-list';
+import { TrafficProvider } from './types';
+
+export type { TrafficProvider } from './types';
+
+export interface ProviderChainOptions {
+  /** Scheduler lane every provider call runs in (default bulk) */
+  priority?: ScrapePriority;
+  /** Abort in-flight and remaining provider calls (job paused/cancelled) */
+  signal?: AbortSignal;
+  /** Called once per domain as soon as its row is complete, before later providers run */
+  onComplete?: (result: TrafficData) => void;
+}
+
+const PROVIDERS: Record<string, TrafficProvider> = {
+  [fetchProxyProvider.name]: fetchProxyProvider,
+  [playwrightBulkProvider.name]: playwrightBulkProvider,
+  [mockProvider.name]: mockProvider,
+  [fixtureProvider.name]: fixtureProvider,
+  [rankListProvider.name]: rankListProvider,
+};
+
+/**
+ * Chain used when TL_PROVIDER_CHAIN is unset
+ */
+function defaultChainSpec(): string {
+  if (process.env.NODE_ENV === 'test') return 'fixture';
+  return 'fetch-proxy,playwright-bulk';
+}
+
+export function getProvider(name: string): TrafficProvider | null {
+  return PROVIDERS[name] || null;
+}
+
+/**
+ * Resolve a comma-separated chain spec; unknown names are skipped with a warning
+ */
+export function getProviderChain(spec: string = process.env.TL_PROVIDER_CHAIN || defaultChainSpec()): TrafficProvider[] {
+  const chain: TrafficProvider[] = [];
+
+  for (const name of spec.split(',').map(part => part.trim()).filter(Boolean)) {
+    const provider = getProvider(name);
+    if (!provider) {
+      console.warn(`[Providers] Unknown provider "${name}" in chain — skipping`);
+      continue;
+    }
+    if (!chain.includes(provider)) chain.push(provider);
+  }
+
+  if (chain.length === 0) {
+    throw new Error(`No usable providers in chain "${spec}"`);
+  }
+
+  return chain;
+}
+
+/**
+ * A row counts as resolved when it has visits and no error (0 visits is a valid answer)
+ */
+export function isResolvedResult(result: TrafficData): boolean {
+  return !result.error && result.monthlyVisits !== null && result.monthlyVisits !== undefined;
+}
+
+/**
+ * Resolved with duration, bounce rate and pages/visit too — nothing a later provider could add.
+ * A domain without visits has no engagement metrics to find.
+ */
+export function isCompleteResult(result: TrafficData): boolean {
+  if (!isResolvedResult(result)) return false;
+  if (result.monthlyVisits === 0) return true;
+  return [result.avgSessionDurationSeconds, result.bounceRate, result.pagesPerVisit].every(
+    value => value !== null && value !== undefined
+  );
+}
+
+function domainKey(domain: string): string {
+  return domain.toLowerCase().trim().replace(/^www\./, '');
+}
+
+function failedRow(domain: string, provider: string, error: string): TrafficData {
+  return {
+    domain,
+    monthlyVisits: null,
+    avgSessionDuration: null,
+    avgSessionDurationSeconds: null,
+    bounceRate: null,
+    pagesPerVisit: null,
+    checkedAt: new Date().toISOString(),
+    trafficSources: null,
+    provider,
+    error,
+  };
+}
+
+/**
+ * Run domains through the chain. Results come back in input order; domains no
+ * provider could resolve carry the last provider's error row. Rows without
+ * visits get globalRank from the imported rank lists when one is known.
+ * Rejects with the signal's reason once `signal` aborts (job paused/cancelled);
+ * rows already passed to `onComplete` by then are final.
+ */
+export async function runProviderChain(
+  domains: string[],
+  chain: TrafficProvider[] = getProviderChain(),
+  options: ProviderChainOptions = {}
+): Promise<TrafficData[]> {
+  const { priority = 'bulk', signal, onComplete } = options;
+  const attempts = new Map<string, TrafficData[]>();
+  const results = new Map<string, TrafficData>();
+  let pending = [...domains];
+
+  for (const provider of chain) {
+    if (pending.length === 0) break;
+
+    for (const batch of chunkArray(pending, provider.maxBatchSize)) {
+      signal?.throwIfAborted();
+
+      let batchResults: TrafficData[];
+      try {
+        batchResults = await runScheduled(priority, () => provider.fetchBatch(batch, signal), signal);
+      } catch (error) {
+        if (signal?.aborted) throw signal.reason;
+        const message = error instanceof Error ? error.message : 'Provider failed';
+        console.warn(`[Providers] ${provider.name} failed for ${batch.length} domain(s): ${message}`);
+        batchResults = batch.map(domain => failedRow(domain, provider.name, message));
+      }
+
+      const byDomain = new Map<string, TrafficData>();
+      for (const result of batchResults) {
+        byDomain.set(domainKey(result.domain), result);
+      }
+
+      for (const domain of batch) {
+        const result = byDomain.get(domainKey(domain));
+        const rows = attempts.get(domain) || [];
+        rows.push(
+          result
+            ? { ...result, provider: provider.name }
+            : failedRow(domain, provider.name, 'Domain result not found')
+        );
+        attempts.set(domain, rows);
+        const reconciled = reconcileTrafficRows(rows);
+        results.set(domain, reconciled);
+        if (onComplete && isCompleteResult(reconciled)) onComplete(reconciled);
+      }
+    }
+
+    const completeCount = pending.filter(domain => isCompleteResult(results.get(domain)!)).length;
+    pending = pending.filter(domain => !isCompleteResult(results.get(domain)!));
+
+    console.log(
+      `[Providers] ${provider.name}: ${completeCount} complete, ${pending.length} left`
+    );
+  }
+
+  const ordered = domains.map(domain => results.get(domain)!);
+
+  try {
+    return fillRanksFromList(ordered);
+  } catch (error) {
+    console.warn('[Providers] Rank list lookup failed:', error);
+    return ordered;
+  }
+}
@@ -0,0 +1,15 @@
+/**
+ * Random but plausible rows for dry runs and local UI work
+ */
+
+import { generateMockData } from '../scraper';
+import { TrafficProvider } from './types';
+
+export const mockProvider: TrafficProvider = {
+  name: 'mock',
+  maxBatchSize: 100,
+  fetchBatch: async (domains) => {
+    const checkedAt = new Date().toISOString();
+    return generateMockData(domains).map(row => ({ ...row, checkedAt, trafficSources: null }));
+  },
+};
@@ -0,0 +1,12 @@
+/**
+ * traffic.cv bulk checker page rendered in Playwright (slow, survives flight payload changes)
+ */
+
+import { scrapeBulkPage } from '../scraper';
+import { TrafficProvider } from './types';
+
+export const playwrightBulkProvider: TrafficProvider = {
+  name: 'playwright-bulk',
+  maxBatchSize: 10,
+  fetchBatch: (domains, signal) => scrapeBulkPage(domains, true, undefined, signal),
+};
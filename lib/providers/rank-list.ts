@@ -0,0 +1,52 @@
+/**
+ * Offline rank signal from an imported public rank list (domain_ranks, see scripts/import-rank-list.ts).
+ * Carries no visits — it answers "is this domain alive at all?" when traffic.cv has nothing.
+ */
+
+import { TrafficData } from '@/types';
+import { getDomainRanksBatch } from '../db';
+import { normalizeDomain } from '../domain-utils';
+import { TrafficProvider } from './types';
+
+export const rankListProvider: TrafficProvider = {
+  name: 'rank-list',
+  maxBatchSize: 500,
+  fetchBatch: async (domains) => {
+    const ranks = getDomainRanksBatch(domains.map(normalizeDomain));
+    const checkedAt = new Date().toISOString();
+
+    return domains.map(domain => {
+      const listRank = ranks.get(normalizeDomain(domain));
+      return {
+        domain,
+        monthlyVisits: null,
+        avgSessionDuration: null,
+        avgSessionDurationSeconds: null,
+        bounceRate: null,
+        pagesPerVisit: null,
+        globalRank: listRank?.rank ?? null,
+        rankSource: listRank?.listName ?? null,
+        checkedAt,
+        trafficSources: null,
+        error: listRank ? null : 'Not in any imported rank list',
+      };
+    });
+  },
+};
+
+/**
+ * Fill globalRank from the rank lists on rows where traffic.cv returned no visits and no rank
+ */
+export function fillRanksFromList(rows: TrafficData[]): TrafficData[] {
+  const missing = rows.filter(row => !row.monthlyVisits && row.globalRank == null);
+  if (missing.length === 0) return rows;
+
+  const ranks = getDomainRanksBatch(missing.map(row => normalizeDomain(row.domain)));
+  if (ranks.size === 0) return rows;
+
+  return rows.map(row => {
+    if (row.monthlyVisits || row.globalRank != null) return row;
+    const listRank = ranks.get(normalizeDomain(row.domain));
+    return listRank ? { ...row, globalRank: listRank.rank, rankSource: listRank.listName } : row;
+  });
+}
@@ -0,0 +1,17 @@
+/**
+ * Traffic provider contract — one upstream (or stand-in) that turns domains into TrafficData rows
+ */
+
+import { TrafficData } from '@/types';
+
+export interface TrafficProvider {
+  /** Recorded on every row it produces (TrafficData.provider) */
+  name: string;
+  /** Largest batch fetchBatch accepts; the chain splits bigger inputs */
+  maxBatchSize: number;
+  /**
+   * Resolve a batch. Rows may come back in any order and may carry per-domain errors.
+   * When `signal` aborts, stop work (close browser contexts, cancel requests) and reject.
+   */
+  fetchBatch(domains: string[], signal?: AbortSignal): Promise<TrafficData[]>;
+}
@@ -0,0 +1,438 @@
+/**
+ * In-process worker for the durable scrape queue
+ *
+ * Started once per server process (instrumentation.ts), or in its own process by
+ * scripts/scrape-worker.ts when TL_WORKER_MODE=external. Runs TL_PARALLEL_BATCHES loops;
+ * each leases a batch from scrape_tasks, runs it through the provider chain and
+ * records the outcome. How many loops lease at once, how many domains they take and how
+ * long they rest in between comes from lib/adaptive-controller.ts. Work left behind by a killed process is picked up again
+ * once its lease expires. Each process beats into worker_heartbeats and runs an hourly
+ * housekeeping pass: watchlists due for their monthly refresh (lib/watchlists.ts) and
+ * pruning of old raw payloads and finished jobs.
+ */
+
+import { hostname } from 'os';
+import { randomUUID } from 'crypto';
+import { TrafficData } from '@/types';
+import { runProviderChain } from './providers';
+import { cleanupRawPayloads, storeTrafficDataWithHistory, storeTrafficError } from './db';
+import { notifyJobUpdate } from './job-events';
+import { getLeaseOrder } from './scrape-scheduler';
+import { getCircuitDeferMs, getCircuitStates, isCircuitOpenError } from './circuit-breaker';
+import { getBrowserPoolState, recycleBrowserPool } from './browser-pool';
+import {
+  HEARTBEAT_MS,
+  WorkerMode,
+  markWorkerStopped,
+  recordHeartbeat,
+  takeBrowserRecycleRequest,
+} from './worker-heartbeats';
+import { CONTROLLER_BOUNDS, getControllerSettings, recordBatchObservation } from './adaptive-controller';
+import { refreshDueWatchlists } from './watchlists';
+import {
+  LEASE_MS,
+  LeasedBatch,
+  ScrapeTask,
+  completeTask,
+  deferTask,
+  failTask,
+  finalizeJobIfDone,
+  getScrapeJob,
+  leaseNextBatch,
+  releaseAbortedTask,
+  releaseExpiredLeases,
+  renewLease,
+  settleDuplicateTasks,
+  countOpenTasks,
+  cleanupFinishedJobs,
+} from './scrape-queue';
+
+/**
+ * Where queued scrapes run. `embedded` (default): inside the Next.js server process.
+ * `external`: only in scripts/scrape-worker.ts — the web tier just enqueues and reads.
+ * Env TL_WORKER_MODE
+ */
+export const WORKER_MODE: 'embedded' | 'external' =
+  process.env.TL_WORKER_MODE === 'external' ? 'external' : 'embedded';
+
+/**
+ * Worker loops per process — the controller's parallelism ceiling (TL_PARALLEL_BATCHES,
+ * default 1 on Railway, 3 elsewhere). Loops above the current parallelism stay idle.
+ */
+export const PARALLEL_BATCHES = CONTROLLER_BOUNDS.parallelism.max;
+
+/** Idle poll interval when the queue is empty. Env TL_QUEUE_POLL_MS */
+const POLL_MS = Math.max(
+  250,
+  parseInt(process.env.TL_QUEUE_POLL_MS || '2000', 10)
+);
+
+/**
+ * Domains per queued batch for jobs created by the API — the largest chunk the controller
+ * may lease; smaller chunks take part of a batch at a time
+ */
+export const QUEUE_BATCH_SIZE = CONTROLLER_BOUNDS.chunkSize.max;
+
+/** How often housekeeping runs (watchlist refresh check, retention cleanup) */
+const HOUSEKEEPING_MS = 60 * 60 * 1000;
+
+/** Archived traffic.cv pages older than this are deleted. Env TRAFFICCV_ARCHIVE_RETENTION_DAYS */
+const RAW_PAYLOAD_RETENTION_DAYS = Math.max(
+  1,
+  parseInt(process.env.TRAFFICCV_ARCHIVE_RETENTION_DAYS || '365', 10) || 365
+);
+
+/** Completed/cancelled jobs (and their tasks) older than this are deleted. Env TL_QUEUE_JOB_RETENTION_DAYS */
+const JOB_RETENTION_DAYS = Math.max(
+  1,
+  parseInt(process.env.TL_QUEUE_JOB_RETENTION_DAYS || '30', 10) || 30
+);
+
+/** How often an in-flight batch checks whether its job was paused/cancelled by another process */
+const CONTROL_CHECK_MS = 2000;
+
+const WORKER_ID = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+interface WorkerState {
+  mode: WorkerMode;
+  startedAt: string;
+  loops: Promise<void>[];
+  stopping: boolean;
+  batchesDone: number;
+  heartbeat: ReturnType<typeof setInterval>;
+  housekeeping: ReturnType<typeof setInterval>;
+}
+
+// Survives Next.js dev hot reloads, which re-evaluate this module
+const globalForWorker = globalThis as unknown as { __tlQueueWorker?: WorkerState };
+
+// In-flight batches per job, so pause/cancel can abort them
+const inFlight = new Map<string, Set<AbortController>>();
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Abort this process's in-flight batches of a job (called after pause/cancel)
+ */
+export function abortJobBatches(jobId: string): number {
+  const controllers = inFlight.get(jobId);
+  if (!controllers) return 0;
+  for (const controller of controllers) {
+    controller.abort(new Error('Job stopped'));
+  }
+  return controllers.size;
+}
+
+/**
+ * Scrape one leased batch and settle every task in it
+ */
+async function processBatch(batch: LeasedBatch): Promise<void> {
+  const domains = batch.tasks.map(task => task.domain);
+  console.log(
+    `[Queue] ${batch.workerId} batch ${batch.batchIndex + 1} of job ${batch.jobId} (${domains.length} domains)`
+  );
+
+  const controller = new AbortController();
+  const controllers = inFlight.get(batch.jobId) ?? new Set<AbortController>();
+  controllers.add(controller);
+  inFlight.set(batch.jobId, controllers);
+
+  // Keep the lease alive while Playwright runs
+  const renewTimer = setInterval(() => {
+    try {
+      renewLease(batch);
+    } catch (error) {
+      console.error('[Queue] Lease renewal failed:', error);
+    }
+  }, Math.floor(LEASE_MS / 3));
+
+  // Pause/cancel issued from another process only shows up in the DB
+  const controlTimer = setInterval(() => {
+    try {
+      const status = getScrapeJob(batch.jobId)?.status;
+      if (status === 'paused' || status === 'cancelled') {
+        controller.abort(new Error(`Job ${status}`));
+      }
+    } catch (error) {
+      console.error('[Queue] Job status check failed:', error);
+    }
+  }, CONTROL_CHECK_MS);
+
+  const startedAt = Date.now();
+  // Jobs whose linked tasks (same domain) were settled along with ours
+  const linkedJobs: string[] = [];
+  // Tasks stored and completed as soon as their row was complete
+  const settled = new Set<number>();
+
+  const settleSuccess = (task: ScrapeTask, result: TrafficData) => {
+    // Stores historical months too when the result carries them
+    storeTrafficDataWithHistory(result);
+    completeTask(task, batch.workerId);
+    linkedJobs.push(...settleDuplicateTasks(task, 'done'));
+    settled.add(task.id);
+  };
+
+  try {
+    let results: TrafficData[] = [];
+    let batchError: string | null = null;
+    try {
+      results = await runProviderChain(domains, undefined, {
+        priority: batch.priority,
+        signal: controller.signal,
+        onComplete: result => {
+          const task = batch.tasks.find(entry => entry.domain === result.domain && !settled.has(entry.id));
+          if (!task) return;
+          try {
+            settleSuccess(task, result);
+            notifyJobUpdate(batch.jobId);
+          } catch (error) {
+            console.error(`[Queue] Failed to store ${result.domain}:`, error);
+          }
+        },
+      });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        // Finished domains stay stored; only the outstanding ones go back to the queue
+        const outstanding = batch.tasks.filter(task => !settled.has(task.id));
+        console.log(
+          `[Queue] Batch ${batch.batchIndex + 1} of job ${batch.jobId} stopped (${outstanding.length} domain(s) released)`
+        );
+        for (const task of outstanding) {
+          releaseAbortedTask(task, batch.workerId);
+        }
+        for (const jobId of new Set(linkedJobs)) {
+          notifyJobUpdate(jobId);
+        }
+        return;
+      }
+
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[Queue] Batch ${batch.batchIndex + 1} error:`, errorMsg);
+      batchError = `Batch failed: ${errorMsg}`;
+    }
+
+    const byDomain = new Map(results.map(result => [result.domain, result]));
+    const durationMs = Date.now() - startedAt;
+    let failed = 0;
+
+    for (const task of batch.tasks) {
+      if (settled.has(task.id)) continue;
+      const result = byDomain.get(task.domain);
+
+      if (result && !result.error) {
+        settleSuccess(task, result);
+        continue;
+      }
+
+      failed++;
+      const errorMsg = result?.error || batchError || 'No result returned';
+      if (isCircuitOpenError(errorMsg)) {
+        // Every provider is behind an open breaker — wait it out instead of burning attempts
+        deferTask(task, batch.workerId, getCircuitDeferMs(), errorMsg);
+        continue;
+      }
+
+      const exhausted = failTask(task, batch.workerId, errorMsg);
+      if (exhausted) {
+        // Final state so the frontend stops polling
+        storeTrafficError(task.domain, errorMsg);
+        linkedJobs.push(...settleDuplicateTasks(task, 'failed', errorMsg));
+      }
+    }
+
+    for (const jobId of new Set(linkedJobs)) {
+      notifyJobUpdate(jobId);
+    }
+
+    recordBatchObservation({ domains: batch.tasks.length, failed, durationMs });
+  } finally {
+    clearInterval(renewTimer);
+    clearInterval(controlTimer);
+    if (globalForWorker.__tlQueueWorker) globalForWorker.__tlQueueWorker.batchesDone++;
+    controllers.delete(controller);
+    if (controllers.size === 0) inFlight.delete(batch.jobId);
+    finalizeJobIfDone(batch.jobId);
+    notifyJobUpdate(batch.jobId);
+  }
+}
+
+async function runLoop(state: WorkerState, slot: number): Promise<void> {
+  const workerId = `${WORKER_ID}#${slot}`;
+
+  while (!state.stopping) {
+    const settings = getControllerSettings();
+    if (slot >= settings.parallelism) {
+      // Parked by the controller until it allows more loops again
+      await sleep(POLL_MS);
+      continue;
+    }
+
+    let batch: LeasedBatch | null = null;
+    try {
+      // Only lanes with spare budget, most under-served first
+      batch = leaseNextBatch(workerId, undefined, getLeaseOrder(), settings.chunkSize);
+    } catch (error) {
+      console.error('[Queue] Lease failed:', error);
+    }
+
+    if (!batch) {
+      await sleep(POLL_MS);
+      continue;
+    }
+
+    notifyJobUpdate(batch.jobId);
+
+    try {
+      await processBatch(batch);
+    } catch (error) {
+      console.error('[Queue] Unhandled batch error:', error);
+    }
+
+    await sleep(getControllerSettings().interBatchSleepMs);
+  }
+}
+
+function runHousekeeping(): void {
+  try {
+    refreshDueWatchlists();
+  } catch (error) {
+    console.error('[Queue] Watchlist refresh check failed:', error);
+  }
+
+  try {
+    const removed = cleanupRawPayloads(RAW_PAYLOAD_RETENTION_DAYS);
+    if (removed > 0) console.log(`[Queue] Removed ${removed} raw payload(s) older than ${RAW_PAYLOAD_RETENTION_DAYS} days`);
+  } catch (error) {
+    console.error('[Queue] Raw payload cleanup failed:', error);
+  }
+
+  try {
+    const removed = cleanupFinishedJobs(JOB_RETENTION_DAYS);
+    if (removed > 0) console.log(`[Queue] Removed ${removed} finished job(s) older than ${JOB_RETENTION_DAYS} days`);
+  } catch (error) {
+    console.error('[Queue] Finished job cleanup failed:', error);
+  }
+}
+
+function beat(state: WorkerState): void {
+  // Requested via POST /api/browser-pool, which can't reach this process's browsers
+  if (takeBrowserRecycleRequest(WORKER_ID)) {
+    const retired = recycleBrowserPool('admin');
+    console.log(`[Queue] Recycle request retired ${retired} browser(s)`);
+  }
+
+  const browserPool = getBrowserPoolState();
+  recordHeartbeat({
+    workerId: WORKER_ID,
+    mode: state.mode,
+    hostname: hostname(),
+    pid: process.pid,
+    loops: PARALLEL_BATCHES,
+    activeBatches: Array.from(inFlight.values()).reduce((sum, set) => sum + set.size, 0),
+    batchesDone: state.batchesDone,
+    rssMb: browserPool.processRssMb,
+    stats: {
+      // The subset of /api/health's browserPool that playwright-health-cron.ts checks
+      browserPool: {
+        healthy: browserPool.healthy,
+        browsers: browserPool.browsers.map(({ id, rssMb, pagesServed, activeContexts }) => ({
+          id,
+          rssMb,
+          pagesServed,
+          activeContexts,
+        })),
+        config: { maxRssMb: browserPool.config.maxRssMb },
+        lastLaunchError: browserPool.lastLaunchError,
+      },
+      openCircuits: getCircuitStates()
+        .filter(circuit => circuit.state === 'open')
+        .map(circuit => circuit.key),
+      controller: getControllerSettings(),
+    },
+    startedAt: state.startedAt,
+  });
+}
+
+/**
+ * Start the worker loops (idempotent). With TL_WORKER_MODE=external only the standalone
+ * worker process (scripts/scrape-worker.ts) runs them; elsewhere this is a no-op.
+ * Returns whether this process is running the worker.
+ */
+export function startQueueWorker(options: { standalone?: boolean } = {}): boolean {
+  if (globalForWorker.__tlQueueWorker) return true;
+  if (WORKER_MODE === 'external' && !options.standalone) return false;
+
+  try {
+    const released = releaseExpiredLeases();
+    const open = countOpenTasks();
+    console.log(
+      `[Queue] Worker ${WORKER_ID} starting ${PARALLEL_BATCHES} loop(s) — ${open.pending} pending, ${open.leased} leased, ${released} expired lease(s) released`
+    );
+  } catch (error) {
+    console.error('[Queue] Startup check failed:', error);
+  }
+
+  const state: WorkerState = {
+    mode: options.standalone ? 'standalone' : 'embedded',
+    startedAt: new Date().toISOString(),
+    loops: [],
+    stopping: false,
+    batchesDone: 0,
+    heartbeat: setInterval(() => {
+      try {
+        beat(state);
+      } catch (error) {
+        console.error('[Queue] Heartbeat failed:', error);
+      }
+    }, HEARTBEAT_MS),
+    housekeeping: setInterval(runHousekeeping, HOUSEKEEPING_MS),
+  };
+  state.heartbeat.unref?.();
+  state.housekeeping.unref?.();
+  globalForWorker.__tlQueueWorker = state;
+
+  try {
+    beat(state);
+  } catch (error) {
+    console.error('[Queue] Heartbeat failed:', error);
+  }
+  runHousekeeping();
+
+  for (let slot = 0; slot < PARALLEL_BATCHES; slot++) {
+    state.loops.push(
+      runLoop(state, slot).catch(error => {
+        console.error(`[Queue] Loop ${slot} stopped:`, error);
+      })
+    );
+  }
+  return true;
+}
+
+/**
+ * Stop leasing, hand in-flight batches back to the queue and wait for the loops to exit
+ * (standalone worker shutdown). Aborted tasks go back to pending without losing an attempt.
+ */
+export async function stopQueueWorker(): Promise<void> {
+  const state = globalForWorker.__tlQueueWorker;
+  if (!state || state.stopping) return;
+  state.stopping = true;
+  clearInterval(state.heartbeat);
+  clearInterval(state.housekeeping);
+
+  for (const controllers of inFlight.values()) {
+    for (const controller of controllers) {
+      controller.abort(new Error('Worker shutting down'));
+    }
+  }
+  await Promise.all(state.loops);
+
+  try {
+    markWorkerStopped(WORKER_ID);
+  } catch (error) {
+    console.error('[Queue] Heartbeat failed:', error);
+  }
+  globalForWorker.__tlQueueWorker = undefined;
+  console.log(`[Queue] Worker ${WORKER_ID} stopped after ${state.batchesDone} batch(es)`);
+}
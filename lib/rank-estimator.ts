@@ -0,0 +1,135 @@
+/**
+ * Rank → visits estimation for long-tail domains
+ *
+ * Fits log(visits) = a + b·log(rank) over every traffic_latest row that has both a
+ * traffic.cv rank and real visits, then uses the curve to estimate visits for
+ * domains that only have a rank. Estimates are applied at response time and never
+ * stored, so a later real scrape always wins.
+ */
+
+import { TrafficData, VisitsEstimate } from '@/types';
+import { getDb } from './db';
+
+/** Fewer points than this and the fit is too noisy to show */
+const MIN_FIT_POINTS = 20;
+
+/** Refit at most this often (ms) — the curve moves slowly */
+const FIT_TTL_MS = 10 * 60 * 1000;
+
+/** z for the reported interval (1.645 → 90%) */
+const INTERVAL_Z = 1.645;
+const INTERVAL_LEVEL = 0.9;
+
+export interface RankVisitFit {
+  intercept: number;
+  slope: number;
+  residualStdDev: number; // In log space
+  points: number;
+  fittedAt: string;
+}
+
+let cachedFit: { fit: RankVisitFit | null; at: number } | null = null;
+
+/**
+ * Least-squares fit over traffic_latest (null when there are too few points)
+ */
+export function fitRankVisitCurve(): RankVisitFit | null {
+  const database = getDb();
+  const rows = database.prepare(`
+    SELECT global_rank, monthly_visits FROM traffic_latest
+    WHERE global_rank > 0
+      AND monthly_visits > 0
+      AND (rank_source IS NULL OR rank_source = 'traffic.cv')
+  `).all() as { global_rank: number; monthly_visits: number }[];
+
+  if (rows.length < MIN_FIT_POINTS) return null;
+
+  const xs = rows.map(row => Math.log(row.global_rank));
+  const ys = rows.map(row => Math.log(row.monthly_visits));
+  const n = rows.length;
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / n;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / n;
+
+  let sxx = 0;
+  let sxy = 0;
+  for (let i = 0; i < n; i++) {
+    sxx += (xs[i] - meanX) ** 2;
+    sxy += (xs[i] - meanX) * (ys[i] - meanY);
+  }
+  if (sxx === 0) return null;
+
+  const slope = sxy / sxx;
+  const intercept = meanY - slope * meanX;
+
+  let sse = 0;
+  for (let i = 0; i < n; i++) {
+    sse += (ys[i] - (intercept + slope * xs[i])) ** 2;
+  }
+
+  return {
+    intercept,
+    slope,
+    residualStdDev: Math.sqrt(sse / Math.max(1, n - 2)),
+    points: n,
+    fittedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Cached fit, refreshed every FIT_TTL_MS
+ */
+export function getRankVisitFit(): RankVisitFit | null {
+  if (cachedFit && Date.now() - cachedFit.at < FIT_TTL_MS) {
+    return cachedFit.fit;
+  }
+
+  const fit = fitRankVisitCurve();
+  cachedFit = { fit, at: Date.now() };
+  return fit;
+}
+
+export function estimateVisitsFromRank(rank: number, fit: RankVisitFit): VisitsEstimate {
+  const predicted = fit.intercept + fit.slope * Math.log(rank);
+  const margin = INTERVAL_Z * fit.residualStdDev;
+
+  return {
+    low: Math.round(Math.exp(predicted - margin)),
+    high: Math.round(Math.exp(predicted + margin)),
+    level: INTERVAL_LEVEL,
+    fitPoints: fit.points,
+  };
+}
+
+function isEstimable(row: TrafficData): boolean {
+  return !row.error && !row.monthlyVisits && !!row.globalRank && row.globalRank > 0;
+}
+
+/**
+ * Fill monthlyVisits for rank-only rows (no visits or 0 from traffic.cv) with a labelled estimate
+ */
+export function applyVisitEstimates(rows: TrafficData[]): TrafficData[] {
+  if (!rows.some(isEstimable)) return rows;
+
+  let fitted: RankVisitFit | null;
+  try {
+    fitted = getRankVisitFit();
+  } catch (error) {
+    console.warn('[RankEstimator] Fit failed:', error);
+    return rows;
+  }
+  if (!fitted) return rows;
+  const fit = fitted;
+
+  return rows.map(row => {
+    if (!isEstimable(row)) return row;
+
+    const rank = row.globalRank!;
+    const predicted = Math.round(Math.exp(fit.intercept + fit.slope * Math.log(rank)));
+    return {
+      ...row,
+      monthlyVisits: predicted,
+      estimated: true,
+      visitsEstimate: estimateVisitsFromRank(rank, fit),
+    };
+  });
+}
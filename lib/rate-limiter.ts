@@ -0,0 +1,234 @@
+/**
+ * Shared token buckets for upstream requests
+ *
+ * One bucket per upstream host + egress (proxy server, CF worker or "direct"), shared
+ * by every request: the flight fetch, Playwright page loads, queued jobs and
+ * interactive lookups all acquire here before hitting traffic.cv. Bucket state lives
+ * in SQLite (rate_limit_buckets), so the web process and a standalone worker draw from
+ * the same buckets instead of each getting the full rate.
+ *
+ * Config:
+ *   TL_RATE_LIMIT_RPS    default refill rate per bucket (default 1000 / TRAFFICCV_FETCH_DELAY_MS → 0.5/s)
+ *   TL_RATE_LIMIT_BURST  default bucket size (default 2)
+ *   TL_RATE_LIMITS       per-host overrides, e.g. "traffic.cv=0.5:2,example.org=2:5"
+ */
+
+import { getDb } from './db';
+
+export const TRAFFIC_CV_HOST = 'traffic.cv';
+
+interface BucketConfig {
+  ratePerSec: number;
+  burst: number;
+}
+
+interface BucketRow {
+  key: string;
+  host: string;
+  egress: string;
+  tokens: number;
+  updated_at: number;
+  granted: number;
+  total_wait_ms: number;
+  last_granted_at: string | null;
+}
+
+export interface RateLimiterBucketState extends BucketConfig {
+  key: string;
+  host: string;
+  egress: string;
+  tokens: number;
+  waiting: number;
+  granted: number;
+  avgWaitMs: number;
+  lastGrantedAt: string | null;
+}
+
+export interface RateLimiterState {
+  config: {
+    default: BucketConfig;
+    hosts: Record<string, BucketConfig>;
+  };
+  buckets: RateLimiterBucketState[];
+}
+
+function positiveNumber(value: string | undefined, fallback: number): number {
+  const number = Number(value);
+  return Number.isFinite(number) && number > 0 ? number : fallback;
+}
+
+const LEGACY_FETCH_DELAY_MS = Math.max(
+  2000,
+  positiveNumber(process.env.TRAFFICCV_FETCH_DELAY_MS, 2000)
+);
+
+const DEFAULT_CONFIG: BucketConfig = {
+  ratePerSec: positiveNumber(process.env.TL_RATE_LIMIT_RPS, 1000 / LEGACY_FETCH_DELAY_MS),
+  burst: Math.max(1, Math.floor(positiveNumber(process.env.TL_RATE_LIMIT_BURST, 2))),
+};
+
+/**
+ * Parse TL_RATE_LIMITS ("host=rps:burst,..."); malformed entries are skipped with a warning
+ */
+function parseHostOverrides(spec: string | undefined): Record<string, BucketConfig> {
+  const overrides: Record<string, BucketConfig> = {};
+  if (!spec) return overrides;
+
+  for (const entry of spec.split(',').map(part => part.trim()).filter(Boolean)) {
+    const match = entry.match(/^([^=]+)=([\d.]+)(?::(\d+))?$/);
+    const ratePerSec = match ? Number(match[2]) : NaN;
+    if (!match || !(ratePerSec > 0)) {
+      console.warn(`[RateLimiter] Ignoring malformed TL_RATE_LIMITS entry "${entry}"`);
+      continue;
+    }
+    overrides[match[1].trim().toLowerCase()] = {
+      ratePerSec,
+      burst: match[3] ? Math.max(1, parseInt(match[3], 10)) : DEFAULT_CONFIG.burst,
+    };
+  }
+  return overrides;
+}
+
+const HOST_CONFIG = parseHostOverrides(process.env.TL_RATE_LIMITS);
+
+// Callers of this process sleeping on a bucket. Survives Next.js dev hot reloads
+const globalForLimiter = globalThis as unknown as { __tlRateWaiting?: Map<string, number> };
+
+function getWaiting(): Map<string, number> {
+  if (!globalForLimiter.__tlRateWaiting) {
+    globalForLimiter.__tlRateWaiting = new Map();
+  }
+  return globalForLimiter.__tlRateWaiting;
+}
+
+function adjustWaiting(key: string, delta: number): void {
+  const waiting = getWaiting();
+  const next = (waiting.get(key) ?? 0) + delta;
+  if (next > 0) waiting.set(key, next);
+  else waiting.delete(key);
+}
+
+function configFor(host: string): BucketConfig {
+  return HOST_CONFIG[host] ?? DEFAULT_CONFIG;
+}
+
+/**
+ * Reduce a proxy URL to host[:port] so credentials never end up in bucket keys
+ */
+export function egressKey(proxy?: string | null): string {
+  if (!proxy) return 'direct';
+  try {
+    return new URL(proxy.includes('://') ? proxy : `http://${proxy}`).host || 'direct';
+  } catch {
+    return proxy;
+  }
+}
+
+function refilledTokens(row: BucketRow, config: BucketConfig, now: number): number {
+  const elapsedSec = Math.max(0, now - row.updated_at) / 1000;
+  return Math.min(config.burst, row.tokens + elapsedSec * config.ratePerSec);
+}
+
+/**
+ * Refill the bucket and take one token (possibly into debt) in one write transaction.
+ * Returns how long the caller has to wait.
+ */
+function reserveToken(key: string, host: string, egress: string, config: BucketConfig): number {
+  const database = getDb();
+  const reserve = database.transaction(() => {
+    const now = Date.now();
+    const row = database.prepare('SELECT * FROM rate_limit_buckets WHERE key = ?').get(key) as BucketRow | undefined;
+    const tokens = (row ? refilledTokens(row, config, now) : config.burst) - 1;
+
+    database.prepare(`
+      INSERT INTO rate_limit_buckets (key, host, egress, tokens, updated_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(key) DO UPDATE SET tokens = excluded.tokens, updated_at = excluded.updated_at
+    `).run(key, host, egress, tokens, now);
+
+    return tokens >= 0 ? 0 : Math.ceil((-tokens / config.ratePerSec) * 1000);
+  });
+  return reserve.immediate();
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Wait for one request slot towards `host` via `proxy` (URL or null for direct).
+ * Callers are served in arrival order: each takes a token now, possibly going into debt,
+ * and sleeps until the debt is repaid.
+ */
+export async function acquireRateLimit(
+  host: string,
+  proxy?: string | null,
+  signal?: AbortSignal
+): Promise<void> {
+  signal?.throwIfAborted();
+  const normalizedHost = host.toLowerCase();
+  const egress = egressKey(proxy);
+  const key = `${normalizedHost}|${egress}`;
+  const config = configFor(normalizedHost);
+
+  const waitMs = reserveToken(key, normalizedHost, egress, config);
+
+  if (waitMs > 0) {
+    adjustWaiting(key, 1);
+    try {
+      await sleep(waitMs, signal);
+    } catch (error) {
+      // Hand the reservation back
+      getDb()
+        .prepare('UPDATE rate_limit_buckets SET tokens = MIN(?, tokens + 1) WHERE key = ?')
+        .run(config.burst, key);
+      throw error;
+    } finally {
+      adjustWaiting(key, -1);
+    }
+  }
+
+  getDb().prepare(`
+    UPDATE rate_limit_buckets
+    SET granted = granted + 1, total_wait_ms = total_wait_ms + ?, last_granted_at = ?
+    WHERE key = ?
+  `).run(waitMs, new Date().toISOString(), key);
+}
+
+/**
+ * Buckets as seen from this process; `waiting` counts this process's callers only
+ */
+export function getRateLimiterState(): RateLimiterState {
+  const now = Date.now();
+  const rows = getDb().prepare('SELECT * FROM rate_limit_buckets ORDER BY key').all() as BucketRow[];
+  const buckets = rows.map(row => {
+    const config = configFor(row.host);
+    return {
+      key: row.key,
+      host: row.host,
+      egress: row.egress,
+      ratePerSec: config.ratePerSec,
+      burst: config.burst,
+      tokens: Math.round(refilledTokens(row, config, now) * 100) / 100,
+      waiting: getWaiting().get(row.key) ?? 0,
+      granted: row.granted,
+      avgWaitMs: row.granted > 0 ? Math.round(row.total_wait_ms / row.granted) : 0,
+      lastGrantedAt: row.last_granted_at,
+    };
+  });
+
+  return {
+    config: { default: DEFAULT_CONFIG, hosts: HOST_CONFIG },
+    buckets,
+  };
+}
@@ -0,0 +1,147 @@
+/**
+ * Field-by-field reconciliation of rows from different providers for the same domain
+ *
+ * Rows are passed in chain order (earlier = preferred). Each metric takes the first
+ * non-null value; values from later rows fill the gaps. When two providers report a
+ * metric and differ by more than TL_RECONCILE_TOLERANCE (relative, default 0.15) the
+ * disagreement is listed in `conflicts`. Every row gets a 0–1 `confidence`.
+ */
+
+import { ReconcileConflict, TrafficData } from '@/types';
+
+const TOLERANCE = Math.max(
+  0,
+  parseFloat(process.env.TL_RECONCILE_TOLERANCE || '0.15') || 0.15
+);
+
+type MetricField =
+  | 'monthlyVisits'
+  | 'avgSessionDurationSeconds'
+  | 'bounceRate'
+  | 'pagesPerVisit'
+  | 'globalRank'
+  | 'countryRank';
+
+/** Compared across providers and scored */
+const METRIC_FIELDS: MetricField[] = [
+  'monthlyVisits',
+  'avgSessionDurationSeconds',
+  'bounceRate',
+  'pagesPerVisit',
+  'globalRank',
+  'countryRank',
+];
+
+/** Row confidence is the mean over these (ranks are a bonus signal, not required) */
+const CORE_FIELDS: MetricField[] = [
+  'monthlyVisits',
+  'avgSessionDurationSeconds',
+  'bounceRate',
+  'pagesPerVisit',
+];
+
+/** Field confidence by evidence */
+const CONFIDENCE = {
+  corroborated: 1,
+  singleSource: 0.7,
+  conflicting: 0.4,
+  missing: 0,
+};
+
+/** Fields without a numeric comparison — first non-empty value wins */
+const PASSTHROUGH_FIELDS = [
+  'trafficSources',
+  'topCountries',
+  'topKeywords',
+  'domainProfile',
+  'historicalMonths',
+  'rankSource',
+] as const;
+
+function withinTolerance(a: number, b: number): boolean {
+  if (a === b) return true;
+  const scale = Math.max(Math.abs(a), Math.abs(b));
+  return scale === 0 || Math.abs(a - b) / scale <= TOLERANCE;
+}
+
+function isUsable(row: TrafficData): boolean {
+  return !row.error && METRIC_FIELDS.some(field => row[field] !== null && row[field] !== undefined);
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || (Array.isArray(value) && value.length === 0);
+}
+
+function copyField<K extends keyof TrafficData>(target: TrafficData, source: TrafficData, field: K): void {
+  target[field] = source[field];
+}
+
+/**
+ * Merge rows for one domain. With no usable row, the last row (usually an error) is returned.
+ */
+export function reconcileTrafficRows(rows: TrafficData[]): TrafficData {
+  const usable = rows.filter(isUsable);
+  if (usable.length === 0) {
+    const last = rows[rows.length - 1];
+    return { ...last, confidence: 0, fieldConfidence: {}, conflicts: [] };
+  }
+
+  const merged: TrafficData = { ...usable[0] };
+  const fieldConfidence: Record<string, number> = {};
+  const conflicts: ReconcileConflict[] = [];
+  const contributors = new Set<string>();
+  if (usable[0].provider) contributors.add(usable[0].provider);
+
+  for (const field of METRIC_FIELDS) {
+    const reported = usable
+      .filter(row => row[field] !== null && row[field] !== undefined)
+      .map(row => ({ provider: row.provider ?? 'unknown', value: row[field] as number, row }));
+
+    if (reported.length === 0) {
+      merged[field] = null;
+      fieldConfidence[field] = CONFIDENCE.missing;
+      continue;
+    }
+
+    const [chosen, ...others] = reported;
+    merged[field] = chosen.value;
+    contributors.add(chosen.provider);
+
+    // Keep the formatted duration in step with the seconds we picked
+    if (field === 'avgSessionDurationSeconds') {
+      merged.avgSessionDuration = chosen.row.avgSessionDuration;
+    }
+
+    if (others.length === 0) {
+      fieldConfidence[field] = CONFIDENCE.singleSource;
+    } else if (others.every(other => withinTolerance(chosen.value, other.value))) {
+      fieldConfidence[field] = CONFIDENCE.corroborated;
+    } else {
+      fieldConfidence[field] = CONFIDENCE.conflicting;
+      conflicts.push({
+        field,
+        values: reported.map(({ provider, value }) => ({ provider, value })),
+      });
+    }
+  }
+
+  for (const field of PASSTHROUGH_FIELDS) {
+    if (!isEmpty(merged[field])) continue;
+    const donor = usable.find(row => !isEmpty(row[field]));
+    if (donor) {
+      copyField(merged, donor, field);
+      if (donor.provider) contributors.add(donor.provider);
+    }
+  }
+
+  const confidence =
+    CORE_FIELDS.reduce((sum, field) => sum + fieldConfidence[field], 0) / CORE_FIELDS.length;
+
+  return {
+    ...merged,
+    provider: Array.from(contributors).join('+') || merged.provider,
+    confidence: Math.round(confidence * 100) / 100,
+    fieldConfidence,
+    conflicts,
+  };
+}
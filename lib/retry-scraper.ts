@@ -1,10 +1,11 @@
 /**
- * Retry scraper with exponential backoff and background retry
+ * Retry scraper with exponential backoff; background retries go through the scrape queue
  */
 
-import { scrapeTrafficData } from './scraper';
+import { runProviderChain } from './providers';
 import { TrafficData } from '@/types';
-import { storeTrafficData } from './db';
+import { createScrapeJob, ScrapeJob } from './scrape-queue';
+import { startQueueWorker } from './queue-worker';
 
 interface RetryOptions {
   maxRetries?: number;
@@ -46,7 +47,7 @@ export async function retryScrapeTrafficData(
         delay = Math.min(delay * opts.backoffMultiplier, opts.maxDelay);
       }
 
-      const results = await scrapeTrafficData(domains, false);
+      const results = await runProviderChain(domains, undefined, { priority: 'maintenance' });
       
       // Check if we got results (even if some have errors or 0 traffic)
       const hasResults = results.length > 0;
@@ -105,49 +106,18 @@ export async function retryScrapeTrafficData(
 
 /**
  * Background retry for failed domains
- * This will retry in the background and update the database when done
+ * Queues a durable 'retry' job; the queue worker retries with backoff and stores the results
  */
-export async function backgroundRetryFailedDomains(
-  failedDomains: string[],
-  onComplete?: (results: TrafficData[]) => void
-): Promise<void> {
-  if (failedDomains.length === 0) return;
-
-  console.log(`🔄 Starting background retry for ${failedDomains.length} failed domains...`);
-
-  // Run in background (don't await)
-  (async () => {
-    try {
-      // Wait a bit longer for background retry
-      await sleep(10000); // 10 seconds initial wait
-
-      const results = await retryScrapeTrafficData(failedDomains, {
-        maxRetries: 2,
-        initialDelay: 10000, // 10 seconds
-        maxDelay: 60000, // 60 seconds
-        backoffMultiplier: 2,
-      });
-
-      // Store successful results (including 0 traffic)
-      for (const result of results) {
-        // Store if no error and we have any data (including 0 visits)
-        if (!result.error && (
-          result.monthlyVisits !== null || 
-          result.avgSessionDuration !== null ||
-          result.bounceRate !== null ||
-          result.pagesPerVisit !== null
-        )) {
-          storeTrafficData(result);
-          console.log(`✅ Background retry succeeded for ${result.domain} (visits: ${result.monthlyVisits ?? 'N/A'})`);
-        }
-      }
-
-      if (onComplete) {
-        onComplete(results);
-      }
-    } catch (error) {
-      console.error('Background retry error:', error);
-    }
-  })();
+export function backgroundRetryFailedDomains(failedDomains: string[]): ScrapeJob | null {
+  if (failedDomains.length === 0) return null;
+
+  console.log(`🔄 Queueing background retry for ${failedDomains.length} failed domains...`);
+
+  const job = createScrapeJob(failedDomains, {
+    kind: 'retry',
+    delayMs: 10000, // 10 seconds initial wait
+    maxAttempts: 3,
+  });
+  startQueueWorker();
+  return job;
 }
-
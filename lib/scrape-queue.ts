@@ -0,0 +1,664 @@
+/**
+ * Durable scrape queue (scrape_jobs / scrape_tasks in the SQLite DB)
+ *
+ * A job is one request's worth of domains, split into batches. Workers lease a
+ * batch at a time (or a chunk of it, see lib/adaptive-controller.ts); a lease that is not completed before it expires (process
+ * killed, OOM, redeploy) simply becomes leasable again. Failed tasks are retried
+ * with exponential backoff until max_attempts is reached.
+ *
+ * A domain that is already leased, or pending in a job of the same or a higher-priority
+ * lane, is not scraped twice: its task is linked to the existing one (duplicate_of),
+ * never leased, and settled together with it. A pending task in a lower lane is not
+ * waited on, so an interactive lookup never queues behind a bulk backlog.
+ */
+
+import { randomUUID } from 'crypto';
+import { JobBatchProgress, JobBatchStatus, JobProgress, TrafficData } from '@/types';
+import { getDb, getLatestTrafficDataBatch } from './db';
+import { chunkArray } from './domain-utils';
+import { ScrapePriority, SCRAPE_PRIORITIES } from './scrape-scheduler';
+
+export type ScrapeJobKind = 'bulk' | 'retry' | 'refresh'; // refresh: watchlist monthly refresh
+export type ScrapeJobStatus = 'queued' | 'running' | 'paused' | 'cancelled' | 'completed';
+export type ScrapeTaskStatus = 'pending' | 'leased' | 'done' | 'failed' | 'cancelled';
+
+/** Jobs whose tasks may be leased */
+const ACTIVE_JOB_STATUSES = "('queued', 'running')";
+
+export interface ScrapeJob {
+  id: string;
+  kind: ScrapeJobKind;
+  priority: ScrapePriority;
+  status: ScrapeJobStatus;
+  totalTasks: number;
+  batchSize: number;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  updatedAt: string;
+}
+
+export interface ScrapeTask {
+  id: number;
+  jobId: string;
+  domain: string;
+  batchIndex: number;
+  status: ScrapeTaskStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string;
+  lastError: string | null;
+  startedAt: string | null;
+  finishedAt: string | null;
+  duplicateOf: number | null;
+}
+
+export interface LeasedBatch {
+  jobId: string;
+  priority: ScrapePriority;
+  batchIndex: number;
+  workerId: string;
+  tasks: ScrapeTask[];
+}
+
+export interface CreateJobOptions {
+  kind?: ScrapeJobKind;
+  priority?: ScrapePriority; // Default: maintenance for retry jobs, bulk otherwise
+  batchSize?: number;
+  maxAttempts?: number;
+  delayMs?: number; // Hold the first attempt back (e.g. retry jobs)
+}
+
+/** How long a leased batch stays owned by a worker without renewal (Env TL_QUEUE_LEASE_MS) */
+export const LEASE_MS = Math.max(
+  30000,
+  parseInt(process.env.TL_QUEUE_LEASE_MS || '180000', 10)
+);
+
+/** Backoff after a failed attempt: base · 2^(attempt-1), capped (Env TL_QUEUE_BACKOFF_MS) */
+const BACKOFF_BASE_MS = Math.max(
+  1000,
+  parseInt(process.env.TL_QUEUE_BACKOFF_MS || '30000', 10)
+);
+const BACKOFF_MAX_MS = 30 * 60 * 1000;
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+function isoIn(ms: number): string {
+  return new Date(Date.now() + ms).toISOString();
+}
+
+export function backoffDelayMs(attempts: number): number {
+  return Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+function mapJobRow(row: any): ScrapeJob {
+  return {
+    id: row.id,
+    kind: row.kind,
+    priority: row.priority,
+    status: row.status,
+    totalTasks: row.total_tasks,
+    batchSize: row.batch_size,
+    createdAt: row.created_at,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function mapTaskRow(row: any): ScrapeTask {
+  return {
+    id: row.id,
+    jobId: row.job_id,
+    domain: row.domain,
+    batchIndex: row.batch_index,
+    status: row.status,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    nextAttemptAt: row.next_attempt_at,
+    lastError: row.last_error,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+    duplicateOf: row.duplicate_of ?? null,
+  };
+}
+
+/**
+ * Persist a job and its tasks. Returns immediately; workers pick it up.
+ */
+export function createScrapeJob(domains: string[], options: CreateJobOptions = {}): ScrapeJob {
+  const database = getDb();
+  const id = randomUUID();
+  const batchSize = Math.max(1, options.batchSize ?? 10);
+  const maxAttempts = Math.max(1, options.maxAttempts ?? 3);
+  const createdAt = nowIso();
+  const firstAttemptAt = isoIn(options.delayMs ?? 0);
+  const unique = Array.from(new Set(domains));
+  const kind = options.kind ?? 'bulk';
+  const priority = options.priority ?? (kind === 'retry' ? 'maintenance' : 'bulk');
+
+  const insertJob = database.prepare(`
+    INSERT INTO scrape_jobs (id, kind, priority, status, total_tasks, batch_size, created_at, updated_at)
+    VALUES (?, ?, ?, 'queued', ?, ?, ?, ?)
+  `);
+  const insertTask = database.prepare(`
+    INSERT INTO scrape_tasks (job_id, domain, batch_index, max_attempts, next_attempt_at, updated_at, duplicate_of)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+  // Lanes served no later than this job's: a pending task there will be leased in time
+  const sameOrHigher = SCRAPE_PRIORITIES.slice(0, SCRAPE_PRIORITIES.indexOf(priority) + 1);
+  const findInFlight = database.prepare(`
+    SELECT t.id FROM scrape_tasks t
+    JOIN scrape_jobs j ON j.id = t.job_id
+    WHERE j.status IN ${ACTIVE_JOB_STATUSES}
+      AND t.domain = ? AND t.duplicate_of IS NULL
+      AND (
+        t.status = 'leased'
+        OR (t.status = 'pending' AND j.priority IN (${sameOrHigher.map(() => '?').join(',')}))
+      )
+    ORDER BY t.status = 'leased' DESC, t.id
+    LIMIT 1
+  `);
+
+  const create = database.transaction(() => {
+    insertJob.run(id, kind, priority, unique.length, batchSize, createdAt, createdAt);
+    chunkArray(unique, batchSize).forEach((batch, batchIndex) => {
+      for (const domain of batch) {
+        const original = findInFlight.get(domain, ...sameOrHigher) as { id: number } | undefined;
+        insertTask.run(id, domain, batchIndex, maxAttempts, firstAttemptAt, createdAt, original?.id ?? null);
+      }
+    });
+  });
+  create.immediate();
+
+  return getScrapeJob(id)!;
+}
+
+export function getScrapeJob(id: string): ScrapeJob | null {
+  const database = getDb();
+  const row = database.prepare('SELECT * FROM scrape_jobs WHERE id = ?').get(id);
+  return row ? mapJobRow(row) : null;
+}
+
+export function getScrapeTasks(jobId: string): ScrapeTask[] {
+  const database = getDb();
+  const rows = database.prepare(`
+    SELECT * FROM scrape_tasks WHERE job_id = ? ORDER BY batch_index, id
+  `).all(jobId) as any[];
+  return rows.map(mapTaskRow);
+}
+
+function msBetween(from: string | null, to: string | null): number | null {
+  if (!from || !to) return null;
+  return Math.max(0, new Date(to).getTime() - new Date(from).getTime());
+}
+
+function batchStatus(
+  row: { pending: number; running: number; completed: number; failed: number; cancelled: number; attempts: number },
+  jobStatus: ScrapeJobStatus
+): JobBatchStatus {
+  if (row.running > 0) return 'running';
+  if (row.pending === 0) return row.cancelled > 0 ? 'cancelled' : 'completed';
+  if (jobStatus === 'paused') return 'paused';
+  return row.attempts > 0 || row.completed + row.failed > 0 ? 'retrying' : 'queued';
+}
+
+/**
+ * Totals, per-batch status and timing for one job (null if the id is unknown)
+ */
+export function getJobProgress(jobId: string): JobProgress | null {
+  const job = getScrapeJob(jobId);
+  if (!job) return null;
+
+  const database = getDb();
+  const rows = database.prepare(`
+    SELECT
+      batch_index,
+      COUNT(*) as domains,
+      SUM(CASE WHEN status = 'done' THEN 1 ELSE 0 END) as completed,
+      SUM(CASE WHEN status = 'failed' THEN 1 ELSE 0 END) as failed,
+      SUM(CASE WHEN status = 'pending' THEN 1 ELSE 0 END) as pending,
+      SUM(CASE WHEN status = 'leased' THEN 1 ELSE 0 END) as running,
+      SUM(CASE WHEN status = 'cancelled' THEN 1 ELSE 0 END) as cancelled,
+      MAX(attempts) as attempts,
+      MIN(started_at) as started_at,
+      MAX(finished_at) as finished_at
+    FROM scrape_tasks
+    WHERE job_id = ?
+    GROUP BY batch_index
+    ORDER BY batch_index
+  `).all(jobId) as any[];
+
+  const batches: JobBatchProgress[] = rows.map(row => {
+    const status = batchStatus(row, job.status);
+    const finishedAt = status === 'completed' || status === 'cancelled' ? row.finished_at : null;
+    return {
+      index: row.batch_index,
+      status,
+      domains: row.domains,
+      completed: row.completed,
+      failed: row.failed,
+      pending: row.pending,
+      running: row.running,
+      cancelled: row.cancelled,
+      attempts: row.attempts,
+      startedAt: row.started_at,
+      finishedAt,
+      durationMs: msBetween(row.started_at, finishedAt),
+    };
+  });
+
+  const totals = batches.reduce(
+    (sum, batch) => ({
+      domains: sum.domains + batch.domains,
+      completed: sum.completed + batch.completed,
+      failed: sum.failed + batch.failed,
+      pending: sum.pending + batch.pending,
+      running: sum.running + batch.running,
+      cancelled: sum.cancelled + batch.cancelled,
+    }),
+    { domains: 0, completed: 0, failed: 0, pending: 0, running: 0, cancelled: 0 }
+  );
+
+  // Batches run back to back per worker loop, so remaining × average is a fair upper bound
+  const durations = batches
+    .map(batch => batch.durationMs)
+    .filter((ms): ms is number => ms !== null);
+  const remaining = batches.filter(batch => batch.finishedAt === null).length;
+  const etaMs =
+    job.status !== 'queued' && job.status !== 'running' || durations.length === 0
+      ? null
+      : Math.round((durations.reduce((sum, ms) => sum + ms, 0) / durations.length) * remaining);
+
+  return {
+    id: job.id,
+    kind: job.kind,
+    priority: job.priority,
+    status: job.status,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt,
+    elapsedMs: msBetween(job.startedAt, job.finishedAt ?? nowIso()),
+    etaMs,
+    totals,
+    batches,
+  };
+}
+
+/**
+ * Tasks of a job that reached a final state (done/failed/cancelled), optionally only those settled after `since`
+ */
+export function getSettledTasks(jobId: string, since?: string | null): ScrapeTask[] {
+  const database = getDb();
+  const rows = database.prepare(`
+    SELECT * FROM scrape_tasks
+    WHERE job_id = ? AND status IN ('done', 'failed', 'cancelled')
+      AND (? IS NULL OR finished_at >= ?)
+    ORDER BY finished_at, id
+  `).all(jobId, since ?? null, since ?? null) as any[];
+  return rows.map(mapTaskRow);
+}
+
+/**
+ * Stored rows for the job's settled domains (error rows for failures without one)
+ */
+export function getSettledResults(jobId: string, since?: string | null): TrafficData[] {
+  const settled = getSettledTasks(jobId, since);
+  const stored = getLatestTrafficDataBatch(settled.map(task => task.domain));
+
+  return settled.map(task =>
+    stored.get(task.domain) ?? {
+      domain: task.domain,
+      monthlyVisits: null,
+      avgSessionDuration: null,
+      avgSessionDurationSeconds: null,
+      bounceRate: null,
+      pagesPerVisit: null,
+      checkedAt: task.finishedAt,
+      error: task.lastError || 'Scrape failed',
+    }
+  );
+}
+
+/**
+ * Lease the oldest due batch: pending tasks whose backoff has passed, or leased
+ * tasks whose owner stopped renewing. Due tasks of that job/batch are taken together, up to
+ * `maxTasks` (the adaptive chunk size); the rest stay due for the next lease.
+ * `lanes` limits and orders the job priorities considered (scheduler lease order).
+ */
+export function leaseNextBatch(
+  workerId: string,
+  leaseMs: number = LEASE_MS,
+  lanes: ScrapePriority[] = SCRAPE_PRIORITIES,
+  maxTasks: number = Number.MAX_SAFE_INTEGER
+): LeasedBatch | null {
+  if (lanes.length === 0) return null;
+  const database = getDb();
+  const lanePlaceholders = lanes.map(() => '?').join(',');
+  const laneOrder = lanes.map((_, index) => `WHEN ? THEN ${index}`).join(' ');
+
+  const lease = database.transaction((): LeasedBatch | null => {
+    const now = nowIso();
+    const head = database.prepare(`
+      SELECT t.job_id, t.batch_index, j.priority
+      FROM scrape_tasks t
+      JOIN scrape_jobs j ON j.id = t.job_id
+      WHERE j.status IN ${ACTIVE_JOB_STATUSES}
+        AND j.priority IN (${lanePlaceholders})
+        AND t.duplicate_of IS NULL
+        AND ((t.status = 'pending' AND t.next_attempt_at <= ?)
+          OR (t.status = 'leased' AND t.lease_expires_at <= ?))
+      ORDER BY CASE j.priority ${laneOrder} END, j.created_at ASC, t.batch_index ASC
+      LIMIT 1
+    `).get(...lanes, now, now, ...lanes) as
+      | { job_id: string; batch_index: number; priority: ScrapePriority }
+      | undefined;
+
+    if (!head) return null;
+
+    const rows = database.prepare(`
+      SELECT * FROM scrape_tasks
+      WHERE job_id = ? AND batch_index = ? AND duplicate_of IS NULL
+        AND ((status = 'pending' AND next_attempt_at <= ?)
+          OR (status = 'leased' AND lease_expires_at <= ?))
+      ORDER BY id
+      LIMIT ?
+    `).all(head.job_id, head.batch_index, now, now, Math.max(1, Math.floor(maxTasks))) as any[];
+
+    const leaseExpiresAt = isoIn(leaseMs);
+    const markLeased = database.prepare(`
+      UPDATE scrape_tasks
+      SET status = 'leased', lease_owner = ?, lease_expires_at = ?, attempts = attempts + 1,
+          started_at = COALESCE(started_at, ?), updated_at = ?
+      WHERE id = ?
+    `);
+    for (const row of rows) {
+      markLeased.run(workerId, leaseExpiresAt, now, now, row.id);
+    }
+
+    database.prepare(`
+      UPDATE scrape_jobs
+      SET status = 'running', started_at = COALESCE(started_at, ?), updated_at = ?
+      WHERE id = ? AND status = 'queued'
+    `).run(now, now, head.job_id);
+
+    return {
+      jobId: head.job_id,
+      priority: head.priority,
+      batchIndex: head.batch_index,
+      workerId,
+      tasks: rows.map(row => mapTaskRow({ ...row, status: 'leased', attempts: row.attempts + 1 })),
+    };
+  });
+
+  return lease.immediate();
+}
+
+/**
+ * Push the lease out for a batch that is still being worked on
+ */
+export function renewLease(batch: LeasedBatch, leaseMs: number = LEASE_MS): void {
+  const database = getDb();
+  const stmt = database.prepare(`
+    UPDATE scrape_tasks SET lease_expires_at = ?, updated_at = ?
+    WHERE id = ? AND status = 'leased' AND lease_owner = ?
+  `);
+  const leaseExpiresAt = isoIn(leaseMs);
+  const now = nowIso();
+  for (const task of batch.tasks) {
+    stmt.run(leaseExpiresAt, now, task.id, batch.workerId);
+  }
+}
+
+export function completeTask(task: ScrapeTask, workerId: string): void {
+  const database = getDb();
+  const now = nowIso();
+  database.prepare(`
+    UPDATE scrape_tasks
+    SET status = 'done', lease_owner = NULL, lease_expires_at = NULL, last_error = NULL,
+        finished_at = ?, updated_at = ?
+    WHERE id = ? AND lease_owner = ?
+  `).run(now, now, task.id, workerId);
+}
+
+/**
+ * Record a failed attempt. Returns true when the task is out of attempts (permanently failed).
+ */
+export function failTask(task: ScrapeTask, workerId: string, error: string): boolean {
+  const database = getDb();
+  const now = nowIso();
+  const exhausted = task.attempts >= task.maxAttempts;
+
+  database.prepare(`
+    UPDATE scrape_tasks
+    SET status = ?, lease_owner = NULL, lease_expires_at = NULL, last_error = ?,
+        next_attempt_at = ?, finished_at = ?, updated_at = ?
+    WHERE id = ? AND lease_owner = ?
+  `).run(
+    exhausted ? 'failed' : 'pending',
+    error,
+    exhausted ? task.nextAttemptAt : isoIn(backoffDelayMs(task.attempts)),
+    exhausted ? now : null,
+    now,
+    task.id,
+    workerId
+  );
+
+  return exhausted;
+}
+
+/**
+ * Settle the tasks linked to `task` (same domain, other jobs) the way `task` ended.
+ * Returns the ids of the jobs touched so the caller can notify their listeners.
+ */
+export function settleDuplicateTasks(task: ScrapeTask, status: 'done' | 'failed', error: string | null = null): string[] {
+  const database = getDb();
+
+  const settle = database.transaction((): string[] => {
+    const now = nowIso();
+    const jobIds = (database.prepare(`
+      SELECT DISTINCT job_id FROM scrape_tasks WHERE duplicate_of = ? AND status = 'pending'
+    `).all(task.id) as { job_id: string }[]).map(row => row.job_id);
+
+    database.prepare(`
+      UPDATE scrape_tasks
+      SET status = ?, last_error = ?, started_at = COALESCE(started_at, ?), finished_at = ?, updated_at = ?
+      WHERE duplicate_of = ? AND status = 'pending'
+    `).run(status, error, task.startedAt ?? now, now, now, task.id);
+
+    for (const jobId of jobIds) {
+      finalizeJobIfDone(jobId);
+    }
+    return jobIds;
+  });
+
+  return settle();
+}
+
+/**
+ * Tasks of other jobs waiting on this job's tasks scrape on their own from now on
+ * (this job was paused or cancelled)
+ */
+function unlinkDuplicatesOf(jobId: string): void {
+  getDb().prepare(`
+    UPDATE scrape_tasks SET duplicate_of = NULL, updated_at = ?
+    WHERE duplicate_of IN (SELECT id FROM scrape_tasks WHERE job_id = ?) AND status = 'pending'
+  `).run(nowIso(), jobId);
+}
+
+/**
+ * Put a task back for later without counting the attempt — the upstream refused it
+ * (open circuit breaker), so the domain itself hasn't failed.
+ */
+export function deferTask(task: ScrapeTask, workerId: string, delayMs: number, reason: string): void {
+  const database = getDb();
+  database.prepare(`
+    UPDATE scrape_tasks
+    SET status = 'pending', attempts = MAX(0, attempts - 1), last_error = ?,
+        next_attempt_at = ?, lease_owner = NULL, lease_expires_at = NULL, updated_at = ?
+    WHERE id = ? AND lease_owner = ?
+  `).run(reason, isoIn(delayMs), nowIso(), task.id, workerId);
+}
+
+/**
+ * Hand back a task whose batch was aborted by pause/cancel or a worker shutdown. The attempt is not counted;
+ * the task is cancelled if its job was cancelled, otherwise it waits for resume.
+ */
+export function releaseAbortedTask(task: ScrapeTask, workerId: string): void {
+  const database = getDb();
+  const now = nowIso();
+  database.prepare(`
+    UPDATE scrape_tasks
+    SET status = CASE WHEN (SELECT status FROM scrape_jobs WHERE id = job_id) = 'cancelled'
+                      THEN 'cancelled' ELSE 'pending' END,
+        last_error = CASE WHEN (SELECT status FROM scrape_jobs WHERE id = job_id) = 'cancelled'
+                          THEN 'Cancelled' ELSE last_error END,
+        finished_at = CASE WHEN (SELECT status FROM scrape_jobs WHERE id = job_id) = 'cancelled'
+                           THEN ? ELSE NULL END,
+        attempts = MAX(0, attempts - 1),
+        lease_owner = NULL, lease_expires_at = NULL, updated_at = ?
+    WHERE id = ? AND lease_owner = ?
+  `).run(now, now, task.id, workerId);
+}
+
+/**
+ * Stop leasing new batches of a job. In-flight batches are aborted by the worker.
+ */
+export function pauseScrapeJob(jobId: string): ScrapeJob | null {
+  const database = getDb();
+  const now = nowIso();
+  database.prepare(`
+    UPDATE scrape_jobs SET status = 'paused', updated_at = ?
+    WHERE id = ? AND status IN ${ACTIVE_JOB_STATUSES}
+  `).run(now, jobId);
+  unlinkDuplicatesOf(jobId);
+  return getScrapeJob(jobId);
+}
+
+export function resumeScrapeJob(jobId: string): ScrapeJob | null {
+  const database = getDb();
+  const now = nowIso();
+  database.prepare(`
+    UPDATE scrape_jobs
+    SET status = CASE WHEN started_at IS NULL THEN 'queued' ELSE 'running' END, updated_at = ?
+    WHERE id = ? AND status = 'paused'
+  `).run(now, jobId);
+  // Paused right after its last batch settled — nothing left to lease
+  finalizeJobIfDone(jobId);
+  return getScrapeJob(jobId);
+}
+
+/**
+ * Cancel a job: waiting tasks are cancelled now, leased ones when the worker aborts them.
+ * Domains already scraped stay stored.
+ */
+export function cancelScrapeJob(jobId: string): ScrapeJob | null {
+  const database = getDb();
+
+  const cancel = database.transaction(() => {
+    const now = nowIso();
+    const changed = database.prepare(`
+      UPDATE scrape_jobs SET status = 'cancelled', finished_at = ?, updated_at = ?
+      WHERE id = ? AND status IN ('queued', 'running', 'paused')
+    `).run(now, now, jobId).changes;
+    if (changed === 0) return;
+
+    database.prepare(`
+      UPDATE scrape_tasks
+      SET status = 'cancelled', last_error = 'Cancelled', finished_at = ?, updated_at = ?
+      WHERE job_id = ? AND status = 'pending'
+    `).run(now, now, jobId);
+    unlinkDuplicatesOf(jobId);
+  });
+  cancel();
+
+  return getScrapeJob(jobId);
+}
+
+/**
+ * Mark a job completed once none of its tasks are pending or leased
+ */
+export function finalizeJobIfDone(jobId: string): boolean {
+  const database = getDb();
+  const open = database.prepare(`
+    SELECT COUNT(*) as count FROM scrape_tasks
+    WHERE job_id = ? AND status IN ('pending', 'leased')
+  `).get(jobId) as { count: number };
+
+  if (open.count > 0) return false;
+
+  const now = nowIso();
+  database.prepare(`
+    UPDATE scrape_jobs SET status = 'completed', finished_at = COALESCE(finished_at, ?), updated_at = ?
+    WHERE id = ? AND status IN ${ACTIVE_JOB_STATUSES}
+  `).run(now, now, jobId);
+  return true;
+}
+
+/**
+ * On boot: hand back leases whose owner is gone (lease already expired)
+ */
+export function releaseExpiredLeases(): number {
+  const database = getDb();
+  const now = nowIso();
+  return database.prepare(`
+    UPDATE scrape_tasks
+    SET status = 'pending', lease_owner = NULL, lease_expires_at = NULL, updated_at = ?
+    WHERE status = 'leased' AND lease_expires_at <= ?
+  `).run(now, now).changes;
+}
+
+/**
+ * Domains that already have a pending or leased task in an active job (so repeat requests don't re-enqueue them)
+ */
+export function getQueuedDomains(domains: string[]): Set<string> {
+  const queued = new Set<string>();
+  if (domains.length === 0) return queued;
+
+  const database = getDb();
+  for (const chunk of chunkArray(domains, 500)) {
+    const placeholders = chunk.map(() => '?').join(',');
+    const rows = database.prepare(`
+      SELECT DISTINCT t.domain FROM scrape_tasks t
+      JOIN scrape_jobs j ON j.id = t.job_id
+      WHERE j.status IN ${ACTIVE_JOB_STATUSES}
+        AND t.status IN ('pending', 'leased') AND t.domain IN (${placeholders})
+    `).all(...chunk) as { domain: string }[];
+    for (const row of rows) queued.add(row.domain);
+  }
+  return queued;
+}
+
+/**
+ * Tasks still waiting or in flight (across all jobs)
+ */
+export function countOpenTasks(): { pending: number; leased: number } {
+  const database = getDb();
+  const rows = database.prepare(`
+    SELECT status, COUNT(*) as count FROM scrape_tasks
+    WHERE status IN ('pending', 'leased')
+    GROUP BY status
+  `).all() as { status: string; count: number }[];
+
+  const counts = { pending: 0, leased: 0 };
+  for (const row of rows) {
+    counts[row.status as 'pending' | 'leased'] = row.count;
+  }
+  return counts;
+}
+
+/**
+ * Delete finished jobs (and their tasks) older than N days
+ */
+export function cleanupFinishedJobs(keepDays: number = 30): number {
+  const database = getDb();
+  const cutoff = new Date();
+  cutoff.setDate(cutoff.getDate() - keepDays);
+
+  return database.prepare(`
+    DELETE FROM scrape_jobs WHERE status IN ('completed', 'cancelled') AND finished_at < ?
+  `).run(cutoff.toISOString()).changes;
+}
@@ -0,0 +1,233 @@
+/**
+ * Priority lanes for upstream scrape work
+ *
+ * Every provider call runs through runScheduled() in one of three lanes:
+ *   interactive  — single lookups and small synchronous requests (a user is waiting)
+ *   bulk         — queued jobs from POST /api/traffic
+ *   maintenance  — retries, backfills, cron refreshes
+ *
+ * Each lane has its own concurrency budget and all lanes share TL_SCRAPE_CONCURRENCY.
+ * When several lanes are waiting, slots go out by weight (stride scheduling), and the
+ * interactive lane keeps a reserved slot so a lookup never queues behind a 500-domain
+ * refresh — as long as the total leaves room for one; with TL_SCRAPE_CONCURRENCY=1
+ * lanes take turns.
+ */
+
+export type ScrapePriority = 'interactive' | 'bulk' | 'maintenance';
+
+export const SCRAPE_PRIORITIES: ScrapePriority[] = ['interactive', 'bulk', 'maintenance'];
+
+interface LaneConfig {
+  concurrency: number; // Max tasks of this lane running at once
+  weight: number; // Share of contended slots
+  reserved: number; // Slots other lanes may never take
+}
+
+interface Waiter {
+  start: () => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+interface LaneState {
+  running: number;
+  waiting: Waiter[];
+  pass: number; // Stride scheduling position; lowest pass is served next
+  started: number;
+}
+
+export interface SchedulerLaneState extends LaneConfig {
+  name: ScrapePriority;
+  running: number;
+  waiting: number;
+  started: number;
+}
+
+export interface SchedulerState {
+  totalConcurrency: number;
+  running: number;
+  lanes: SchedulerLaneState[];
+}
+
+function envInt(name: string, fallback: number, min: number = 0): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Math.max(min, Number.isFinite(value) ? value : fallback);
+}
+
+/** Default 2 on Railway (Playwright OOM), 4 elsewhere. Env TL_SCRAPE_CONCURRENCY */
+const TOTAL_CONCURRENCY = envInt(
+  'TL_SCRAPE_CONCURRENCY',
+  process.env.RAILWAY_ENVIRONMENT ? 2 : 4,
+  1
+);
+
+const LANES: Record<ScrapePriority, LaneConfig> = {
+  interactive: {
+    concurrency: envInt('TL_LANE_INTERACTIVE_CONCURRENCY', 2, 1),
+    weight: envInt('TL_LANE_INTERACTIVE_WEIGHT', 6, 1),
+    reserved: 1,
+  },
+  bulk: {
+    concurrency: envInt('TL_LANE_BULK_CONCURRENCY', 3, 1),
+    weight: envInt('TL_LANE_BULK_WEIGHT', 3, 1),
+    reserved: 0,
+  },
+  maintenance: {
+    concurrency: envInt('TL_LANE_MAINTENANCE_CONCURRENCY', 1, 1),
+    weight: envInt('TL_LANE_MAINTENANCE_WEIGHT', 1, 1),
+    reserved: 0,
+  },
+};
+
+// Survives Next.js dev hot reloads, which re-evaluate this module
+const globalForScheduler = globalThis as unknown as {
+  __tlScrapeLanes?: Record<ScrapePriority, LaneState>;
+};
+
+function getLanes(): Record<ScrapePriority, LaneState> {
+  if (!globalForScheduler.__tlScrapeLanes) {
+    globalForScheduler.__tlScrapeLanes = {
+      interactive: { running: 0, waiting: [], pass: 0, started: 0 },
+      bulk: { running: 0, waiting: [], pass: 0, started: 0 },
+      maintenance: { running: 0, waiting: [], pass: 0, started: 0 },
+    };
+  }
+  return globalForScheduler.__tlScrapeLanes;
+}
+
+function totalRunning(): number {
+  const lanes = getLanes();
+  return SCRAPE_PRIORITIES.reduce((sum, name) => sum + lanes[name].running, 0);
+}
+
+/**
+ * Slots held back for other lanes' reservations they aren't using yet. Capped so
+ * every lane can still get one slot of the total.
+ */
+function reservedForOthers(name: ScrapePriority): number {
+  const lanes = getLanes();
+  const reserved = SCRAPE_PRIORITIES
+    .filter(other => other !== name)
+    .reduce((sum, other) => sum + Math.max(0, LANES[other].reserved - lanes[other].running), 0);
+  return Math.min(reserved, TOTAL_CONCURRENCY - 1);
+}
+
+function canStart(name: ScrapePriority): boolean {
+  const lane = getLanes()[name];
+  if (lane.running >= LANES[name].concurrency) return false;
+  return totalRunning() + 1 + reservedForOthers(name) <= TOTAL_CONCURRENCY;
+}
+
+/**
+ * Lowest pass among lanes with work — an idle lane rejoins here instead of
+ * cashing in the time it spent idle
+ */
+function currentPass(exclude: ScrapePriority): number {
+  const lanes = getLanes();
+  const passes = SCRAPE_PRIORITIES
+    .filter(name => name !== exclude && (lanes[name].running > 0 || lanes[name].waiting.length > 0))
+    .map(name => lanes[name].pass);
+  return passes.length > 0 ? Math.min(...passes) : 0;
+}
+
+function markStarted(name: ScrapePriority): void {
+  const lane = getLanes()[name];
+  lane.running++;
+  lane.started++;
+  lane.pass += 1 / LANES[name].weight;
+}
+
+/**
+ * Start as many waiting tasks as the budgets allow, lowest pass first
+ */
+function dispatch(): void {
+  const lanes = getLanes();
+
+  while (true) {
+    const next = SCRAPE_PRIORITIES
+      .filter(name => lanes[name].waiting.length > 0 && canStart(name))
+      .sort((a, b) => lanes[a].pass - lanes[b].pass)[0];
+    if (!next) return;
+
+    const waiter = lanes[next].waiting.shift()!;
+    if (waiter.signal && waiter.onAbort) {
+      waiter.signal.removeEventListener('abort', waiter.onAbort);
+    }
+    markStarted(next);
+    waiter.start();
+  }
+}
+
+function acquire(name: ScrapePriority, signal?: AbortSignal): Promise<void> {
+  signal?.throwIfAborted();
+  const lanes = getLanes();
+  const lane = lanes[name];
+
+  if (lane.running === 0 && lane.waiting.length === 0) {
+    lane.pass = Math.max(lane.pass, currentPass(name));
+  }
+
+  return new Promise<void>((resolve, reject) => {
+    const waiter: Waiter = { start: resolve, signal };
+    if (signal) {
+      waiter.onAbort = () => {
+        lane.waiting = lane.waiting.filter(entry => entry !== waiter);
+        reject(signal.reason);
+      };
+      signal.addEventListener('abort', waiter.onAbort, { once: true });
+    }
+    lane.waiting.push(waiter);
+    dispatch();
+  });
+}
+
+function release(name: ScrapePriority): void {
+  const lane = getLanes()[name];
+  lane.running = Math.max(0, lane.running - 1);
+  dispatch();
+}
+
+/**
+ * Run `task` once its lane has a free slot. Rejects with the signal's reason if
+ * aborted while still waiting.
+ */
+export async function runScheduled<T>(
+  priority: ScrapePriority,
+  task: () => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  await acquire(priority, signal);
+  try {
+    return await task();
+  } finally {
+    release(priority);
+  }
+}
+
+/**
+ * Lanes that could start work right now, in the order the scheduler would serve
+ * them. The queue worker leases batches from jobs in this order, so it doesn't
+ * lease work that would only sit waiting (with its lease renewed) for a slot.
+ */
+export function getLeaseOrder(): ScrapePriority[] {
+  const lanes = getLanes();
+  return SCRAPE_PRIORITIES
+    .filter(name => lanes[name].running + lanes[name].waiting.length < LANES[name].concurrency)
+    .filter(canStart)
+    .sort((a, b) => lanes[a].pass - lanes[b].pass);
+}
+
+export function getSchedulerState(): SchedulerState {
+  const lanes = getLanes();
+  return {
+    totalConcurrency: TOTAL_CONCURRENCY,
+    running: totalRunning(),
+    lanes: SCRAPE_PRIORITIES.map(name => ({
+      name,
+      ...LANES[name],
+      running: lanes[name].running,
+      waiting: lanes[name].waiting.length,
+      started: lanes[name].started,
+    })),
+  };
+}
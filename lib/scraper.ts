@@ -3,11 +3,21 @@
  * Supports both Vercel (serverless) and Railway (full filesystem)
  */
 
-import { Browser, Page } from 'playwright';
+import { Page } from 'playwright';
 import { parseNumberWithSuffix, parseDurationToSeconds, parsePercentage } from './parsing-utils';
 import { TrafficData } from '@/types';
 import { extractHistoricalMonths, HistoricalMonthData } from './historical-extractor';
 import { fetchTrafficCvBatch, isCompleteTrafficResult } from './trafficcv-fetch';
+import { acquireRateLimit, TRAFFIC_CV_HOST } from './rate-limiter';
+import { singleFlightBatch } from './single-flight';
+import { acquireBrowserContext, BrowserLease } from './browser-pool';
+import { pickProxy, ProxyDefinition, recordProxyOutcome, toPlaywrightProxy } from './proxy-pool';
+import {
+  assertCircuitClosed,
+  recordCircuitAbort,
+  recordCircuitFailure,
+  recordCircuitSuccess,
+} from './circuit-breaker';
 import path from 'path';
 import fs from 'fs';
 
@@ -18,12 +28,16 @@ if (!fs.existsSync(LOCAL_TMP)) {
 }
 process.env.TMPDIR = LOCAL_TMP;
 
+type ProxyConfig = { server: string; username?: string; password?: string };
+
 /**
  * Get the appropriate Chromium browser launcher based on environment
  * - Vercel: Uses @sparticuz/chromium (serverless-compatible)
  * - Railway/Local: Uses regular Playwright (full filesystem access)
+ * `proxyConfig` comes from the proxy pool (lib/proxy-pool.ts); null means direct.
+ * `extraArgs` are appended to every launch (the browser pool's marker switch)
  */
-async function getChromiumBrowser(proxyConfig?: { server: string; username?: string; password?: string } | null) {
+async function getChromiumBrowser(proxyConfig: ProxyConfig | null, extraArgs: string[] = []) {
   const isVercel = !!(
     process.env.VERCEL ||
     process.env.VERCEL_ENV ||
@@ -35,10 +49,7 @@ async function getChromiumBrowser(proxyConfig?: { server: string; username?: str
     const { chromium } = await import('playwright-core');
     const Chromium = (await import('@sparticuz/chromium')).default;
 
-    const args = [...Chromium.args];
-    // FORCE DIRECT if explicit null is passed (meaning "no proxy please")
-    // proxyConfig === undefined means "use defaults" (if we had any for Vercel, which we don't usually)
-    // proxyConfig === null means "direct connection"
+    const args = [...Chromium.args, ...extraArgs];
     if (proxyConfig === null) {
       args.push('--no-proxy-server');
     }
@@ -49,124 +60,50 @@ async function getChromiumBrowser(proxyConfig?: { server: string; username?: str
       args,
       proxy: proxyConfig || undefined,
     });
-  } else {
-    // Railway/Local: Use regular Playwright
-    const { chromium } = await import('playwright');
-    const userDataDir = path.join(LOCAL_TMP, 'user_data_global');
-
-    // Determine proxy settings
-    let proxyServer = process.env.PROXY_URL;
-    let proxyUsername = process.env.PROXY_USERNAME;
-    let proxyPassword = process.env.PROXY_PASSWORD;
-    const proxyscrapeKey = process.env.PROXYSCRAPE_API_KEY;
-
-    // IF proxyConfig is explicitly provided (not null/undefined), use it
-    if (proxyConfig) {
-      // It's a custom proxy object
-      return chromium.launch({
-        headless: true,
-        proxy: proxyConfig,
-        args: [
-          '--no-sandbox',
-          '--disable-setuid-sandbox',
-          '--disable-dev-shm-usage',
-          '--disable-accelerated-2d-canvas',
-          '--no-first-run',
-          '--disable-gpu',
-          `--user-data-dir=${path.join(LOCAL_TMP, 'user_data_' + Date.now())}`
-        ]
-      });
-    }
-
-    // IF proxyConfig is explicit NULL, it means "Force Direct / No Proxy"
-    if (proxyConfig === null) {
-      return chromium.launch({
-        headless: true,
-        args: [
-          '--no-sandbox',
-          '--disable-setuid-sandbox',
-          '--disable-dev-shm-usage',
-          '--disable-accelerated-2d-canvas',
-          '--no-first-run',
-          '--disable-gpu',
-          '--disable-site-isolation-trials', // Aggressive memory saving
-          '--js-flags="--max-old-space-size=512"', // Limit V8 memory
-          '--no-proxy-server' // <--- CRITICAL FIX
-        ]
-      });
-    }
-
-    // OTHERWISE (undefined): Apply Defaults (PyProxy / ProxyScrape)
-
-    // Default to PyProxy Sticky IP if no manual proxy is set
-    // WE USE STICKY IP (Session) for better speed/success rate, with random session ID to avoid collisions
-    // NUCLEAR DIRECT DIAGNOSIS: Disable all proxy fetching
-    const baseArgs = [
-      '--no-sandbox',
-      '--disable-setuid-sandbox',
-      '--disable-dev-shm-usage',
-      '--disable-accelerated-2d-canvas',
-      '--no-first-run',
-      '--disable-gpu',
-      '--disable-site-isolation-trials',
-      '--disable-features=IsolateOrigins,site-per-process',
-      '--no-proxy-server' // FORCE DIRECT
-    ];
+  }
 
-    console.log('DIAGNOSTIC: Running in Force Direct Mode (No Proxy)');
+  // Railway/Local: Use regular Playwright
+  const { chromium } = await import('playwright');
+  const baseArgs = [
+    '--no-sandbox',
+    '--disable-setuid-sandbox',
+    '--disable-dev-shm-usage',
+    '--disable-accelerated-2d-canvas',
+    '--no-first-run',
+    '--disable-gpu',
+    '--disable-site-isolation-trials', // Aggressive memory saving
+    `--user-data-dir=${path.join(LOCAL_TMP, 'user_data_' + Date.now())}`,
+  ];
+
+  if (proxyConfig) {
     return chromium.launch({
       headless: true,
-      args: [...baseArgs, `--user-data-dir=${path.join(LOCAL_TMP, 'user_data_direct_' + Date.now())}`]
+      proxy: proxyConfig,
+      args: [...baseArgs, ...extraArgs],
     });
   }
-}
-
-// Global singleton browser instance to avoid recreating Playwright per batch
-// Drastically saves threads (prevents pthread_create SIGTRAP) on Railway
-let globalBrowser: Browser | null = null;
-let browserLaunchPromise: Promise<Browser> | null = null;
 
-// Browser Bomb Protection: Ensure only ONE scraping operation happens at a time
-// to prevent CPU saturation (350% orbit) and zombie thread pile-up.
-let isScrapingLocked = false;
-const lockQueue: (() => void)[] = [];
-
-async function acquireScrapingLock(): Promise<void> {
-  if (!isScrapingLocked) {
-    isScrapingLocked = true;
-    return;
-  }
-  return new Promise(resolve => lockQueue.push(resolve));
-}
-
-function releaseScrapingLock() {
-  const next = lockQueue.shift();
-  if (next) {
-    next();
-  } else {
-    isScrapingLocked = false;
-  }
+  return chromium.launch({
+    headless: true,
+    args: [
+      ...baseArgs,
+      '--js-flags="--max-old-space-size=512"', // Limit V8 memory
+      '--no-proxy-server', // Never pick up a system proxy when we mean direct
+      ...extraArgs,
+    ],
+  });
 }
 
-async function getSharedBrowser(proxyConfig?: any): Promise<Browser> {
-  if (globalBrowser && globalBrowser.isConnected()) {
-    return globalBrowser;
-  }
-
-  if (browserLaunchPromise) {
-    const b = await browserLaunchPromise;
-    if (b.isConnected()) return b;
-  }
+// Browsers come from a recycled pool (lib/browser-pool.ts) instead of one forever-singleton:
+// long-lived Chromium was what piled up threads (pthread_create SIGTRAP) and memory on Railway.
+// Browser Bomb Protection: concurrent scrapes are bounded per priority lane
+// (lib/scrape-scheduler.ts, TL_SCRAPE_CONCURRENCY) to prevent CPU saturation and zombie thread pile-up.
 
-  browserLaunchPromise = getChromiumBrowser(proxyConfig);
-  try {
-    globalBrowser = await browserLaunchPromise;
-    return globalBrowser;
-  } catch (error) {
-    browserLaunchPromise = null;
-    globalBrowser = null;
-    throw error;
-  }
+/**
+ * Pool key per launch configuration — a browser launched through one proxy can't serve another
+ */
+function browserPoolKey(proxyConfig: ProxyConfig | null): string {
+  return proxyConfig ? `proxy:${proxyConfig.server}` : 'direct';
 }
 
 function reorderResults(results: TrafficData[], originalDomains: string[]): TrafficData[] {
@@ -198,14 +135,14 @@ function reorderResults(results: TrafficData[], originalDomains: string[]): Traf
  * Scrapes traffic data from Traffic.cv bulk endpoint
  * @param domains Array of domains (max 10 per call)
  * @param dryRun If true, returns mock data without scraping
- * @param useProxy If true, uses Default Proxy (PyProxy/Env). If false, forces DIRECT.
+ * @param useProxy If true, rotates through the proxy pool (lib/proxy-pool.ts). If false, forces DIRECT.
  * @param customProxy Optional custom proxy configuration
  */
 export async function scrapeTrafficData(
   domains: string[],
   dryRun: boolean = false,
   useProxy: boolean = true, // Default to using proxy in prod, but allow opt-out
-  customProxy?: { server: string; username?: string; password?: string }
+  customProxy?: ProxyConfig
 ): Promise<TrafficData[]> {
   if (dryRun) {
     return generateMockData(domains);
@@ -219,6 +156,23 @@ export async function scrapeTrafficData(
     throw new Error('Maximum 10 domains per batch');
   }
 
+  // Domains another caller is already scraping (same proxy choice) are joined, not fetched again
+  const egress = !useProxy ? 'direct' : customProxy?.server ?? 'default';
+  const keyFor = (domain: string) => `scrape:${egress}:${domain.toLowerCase().trim().replace(/^www\./, '')}`;
+  const domainByKey = new Map(domains.map(domain => [keyFor(domain), domain]));
+
+  const results = await singleFlightBatch(domains.map(keyFor), async keys => {
+    const batch = keys.map(key => domainByKey.get(key)!);
+    return reorderResults(await scrapeTrafficDataUnshared(batch, useProxy, customProxy), batch);
+  });
+  return results.map(result => ({ ...result }));
+}
+
+async function scrapeTrafficDataUnshared(
+  domains: string[],
+  useProxy: boolean,
+  customProxy?: ProxyConfig
+): Promise<TrafficData[]> {
   // Tier 1: CF-worker flight-chunk fetch (fast, bypasses Cloudflare + DOM drift)
   try {
     const flightResults = await fetchTrafficCvBatch(domains);
@@ -239,24 +193,92 @@ export async function scrapeTrafficData(
     console.warn('[FlightFetch] Failed, falling back to Playwright:', error);
   }
 
-  // Acquire concurrency lock (Bypassed for Extreme Acceleration)
-  // await acquireScrapingLock();
+  return scrapeBulkPage(domains, useProxy, customProxy);
+}
+
+/**
+ * Playwright scrape of the traffic.cv bulk page (max 10 domains), bounded by a hard timeout.
+ * Used directly by the playwright-bulk provider (lib/providers).
+ */
+export async function scrapeBulkPage(
+  domains: string[],
+  useProxy: boolean = true,
+  customProxy?: ProxyConfig,
+  signal?: AbortSignal
+): Promise<TrafficData[]> {
+  // An explicit proxy wins; otherwise the pool picks a healthy browser egress (proxy or direct)
+  const pooled = customProxy || !useProxy ? null : pickProxy('browser');
+  const proxyConfig = customProxy ?? (pooled ? toPlaywrightProxy(pooled) : null);
+  const egress = proxyConfig?.server ?? null;
+  // Throws CIRCUIT_OPEN while this egress keeps getting challenged (lib/circuit-breaker.ts)
+  assertCircuitClosed(TRAFFIC_CV_HOST, egress);
+
+  // Hard Safety Timeout: 45 seconds total for the entire operation
+  // If Playwright hangs internally, this ensures we close the context and release the lane slot.
+  const SAFETY_TIMEOUT_MS = 45000;
+
+  let safetyTimer: ReturnType<typeof setTimeout> | undefined;
+  let rejectOnAbort: (() => void) | undefined;
 
   try {
-    // Hard Safety Timeout: 45 seconds total for the entire operation
-    // If Playwright hangs internally, this ensures we close the context and release the lock.
-    const SAFETY_TIMEOUT_MS = 45000;
-    
-    return await Promise.race([
-      performScrape(domains, useProxy, customProxy),
-      new Promise<TrafficData[]>((_, reject) => 
-        setTimeout(() => reject(new Error('SCRAPER_SAFETY_TIMEOUT: Operation exceeded 45s hard limit')), SAFETY_TIMEOUT_MS)
-      )
+    // One page load against traffic.cv — same per-egress budget as the flight fetch.
+    // Waited for before the safety timeout starts so queueing for a token can't trip it.
+    await acquireRateLimit(TRAFFIC_CV_HOST, egress, signal);
+    const startedAt = Date.now();
+
+    const results = await Promise.race([
+      performScrape(domains, proxyConfig, signal),
+      new Promise<TrafficData[]>((_, reject) => {
+        safetyTimer = setTimeout(
+          () => reject(new Error('SCRAPER_SAFETY_TIMEOUT: Operation exceeded 45s hard limit')),
+          SAFETY_TIMEOUT_MS
+        );
+      }),
+      // Pause/cancel: reject right away; performScrape closes its context via the same signal
+      new Promise<TrafficData[]>((_, reject) => {
+        rejectOnAbort = () => reject(signal?.reason);
+        signal?.addEventListener('abort', rejectOnAbort, { once: true });
+      }),
     ]);
+    recordBulkPageOutcome(egress, pooled, results, Date.now() - startedAt);
+    return results;
+  } catch (error) {
+    if (signal?.aborted) {
+      recordCircuitAbort(TRAFFIC_CV_HOST, egress);
+    } else {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      recordCircuitFailure(TRAFFIC_CV_HOST, egress, 'error', message);
+      if (pooled) recordProxyOutcome(pooled, { ok: false, error: message });
+    }
+    throw error;
   } finally {
-    // CRITICAL (Bypassed): Always release the lock
-    // releaseScrapingLock();
+    // A long-lived job signal would otherwise collect one listener per page load
+    clearTimeout(safetyTimer);
+    if (rejectOnAbort) signal?.removeEventListener('abort', rejectOnAbort);
+  }
+}
+
+/**
+ * Feed one page load into the breaker and the pooled proxy's score: any row with data
+ * counts as success; a page where every domain errored is a challenge when Cloudflare
+ * shows up in the diagnostics.
+ */
+function recordBulkPageOutcome(
+  egress: string | null,
+  pooled: ProxyDefinition | null,
+  results: TrafficData[],
+  latencyMs: number
+): void {
+  if (results.length === 0 || results.some(result => !result.error)) {
+    recordCircuitSuccess(TRAFFIC_CV_HOST, egress);
+    if (pooled) recordProxyOutcome(pooled, { ok: true, latencyMs });
+    return;
   }
+
+  const message = results[0].error || 'Unknown error';
+  const challenged = /just a moment|cloudflare|challenge/i.test(message);
+  recordCircuitFailure(TRAFFIC_CV_HOST, egress, challenged ? 'challenge' : 'error', message);
+  if (pooled) recordProxyOutcome(pooled, { ok: false, challenge: challenged, latencyMs, error: message });
 }
 
 /**
@@ -265,8 +287,8 @@ export async function scrapeTrafficData(
  */
 async function performScrape(
   domains: string[],
-  useProxy: boolean,
-  customProxy?: { server: string; username?: string; password?: string }
+  proxyConfig: ProxyConfig | null,
+  signal?: AbortSignal
 ): Promise<TrafficData[]> {
   // Normalize domains for traffic.cv query (remove www. and ensure clean format)
   // But keep original domains for matching results back
@@ -284,37 +306,37 @@ async function performScrape(
   });
 
   const url = `https://traffic.cv/bulk?domains=${normalizedForQuery.join(',')}`;
-  let browser: Browser | null = null;
+  let lease: BrowserLease | null = null;
   let context: any = null;
+  // Closing the context makes any pending page call reject, which ends the scrape
+  const closeOnAbort = () => {
+    if (context) context.close().catch(() => { });
+  };
+  signal?.addEventListener('abort', closeOnAbort, { once: true });
 
   try {
-    // Launch Chromium browser (auto-detects Vercel vs Railway/Local)
-    let proxyArg: { server: string; username?: string; password?: string } | null | undefined;
-
-    if (customProxy) {
-      proxyArg = customProxy;
-    } else if (!useProxy) {
-      proxyArg = null; // Signal to force direct
-    } else {
-      proxyArg = undefined; // Signal to use defaults
-    }
-
-    browser = await getSharedBrowser(proxyArg);
-
-    // Create a new context per page request, not a full browser
-    context = await browser.newContext({
-      userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36',
-      ignoreHTTPSErrors: true,
-      viewport: { width: 1440, height: 900 },
-      locale: 'en-US',
-      timezoneId: 'America/New_York',
-      extraHTTPHeaders: {
-        'Accept-Language': 'en-US,en;q=0.9',
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,*/*;q=0.8',
-        'Upgrade-Insecure-Requests': '1',
+    // Create a new context per page request on a pooled browser, not a full browser
+    // (launched on demand; auto-detects Vercel vs Railway/Local)
+    lease = await acquireBrowserContext(
+      browserPoolKey(proxyConfig),
+      extraArgs => getChromiumBrowser(proxyConfig, extraArgs),
+      {
+        userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36',
+        ignoreHTTPSErrors: true,
+        viewport: { width: 1440, height: 900 },
+        locale: 'en-US',
+        timezoneId: 'America/New_York',
+        extraHTTPHeaders: {
+          'Accept-Language': 'en-US,en;q=0.9',
+          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,*/*;q=0.8',
+          'Upgrade-Insecure-Requests': '1',
+        },
       },
-    });
+      signal
+    );
+    context = lease.context;
 
+    if (signal?.aborted) throw signal.reason;
     const page = await context.newPage();
 
     // Optimize: Block unnecessary resources for faster loading
@@ -592,8 +614,9 @@ async function performScrape(
       error: error instanceof Error ? error.message : 'Unknown error',
     }));
   } finally {
-    if (context) {
-      await context.close().catch(() => { });
+    signal?.removeEventListener('abort', closeOnAbort);
+    if (lease) {
+      await lease.release();
     }
   }
 }
@@ -1214,7 +1237,7 @@ async function extractGeneric(page: Page, domains: string[]): Promise<TrafficDat
 /**
  * Generates mock data for dry-run mode
  */
-function generateMockData(domains: string[]): TrafficData[] {
+export function generateMockData(domains: string[]): TrafficData[] {
   return domains.map((domain, index) => {
     const baseVisits = [10000, 50000, 200000, 1000000, 5000000][index % 5];
     const visits = baseVisits * (1 + Math.random());
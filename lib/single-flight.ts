@@ -0,0 +1,133 @@
+/**
+ * In-process single-flight registry
+ *
+ * Concurrent callers asking for the same key (e.g. a normalized domain) share one
+ * in-flight promise instead of each hitting traffic.cv. The entry is dropped as soon
+ * as the work settles, so this never serves stale results — caching stays the DB's job.
+ *
+ * Across processes the queue does the same thing with linked tasks (scrape_tasks.duplicate_of).
+ */
+
+interface Flight<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+  waiters: number; // Callers that can still walk away
+  pinned: boolean; // A caller without a signal is waiting — never abort the work
+}
+
+export interface SingleFlightStats {
+  inFlight: number;
+  started: number;
+  shared: number; // Calls that joined an existing flight instead of starting one
+}
+
+// Survives Next.js dev hot reloads, which re-evaluate this module
+const globalForFlights = globalThis as unknown as {
+  __tlFlights?: { flights: Map<string, Flight<unknown>>; started: number; shared: number };
+};
+
+function getRegistry() {
+  if (!globalForFlights.__tlFlights) {
+    globalForFlights.__tlFlights = { flights: new Map(), started: 0, shared: 0 };
+  }
+  return globalForFlights.__tlFlights;
+}
+
+function startFlight<T>(key: string, run: (signal: AbortSignal) => Promise<T>): Flight<T> {
+  const registry = getRegistry();
+  const controller = new AbortController();
+  const flight: Flight<T> = { promise: Promise.resolve(undefined as T), controller, waiters: 0, pinned: false };
+
+  flight.promise = run(controller.signal).finally(() => {
+    if (registry.flights.get(key) === flight) registry.flights.delete(key);
+  });
+  registry.flights.set(key, flight as Flight<unknown>);
+  registry.started++;
+  return flight;
+}
+
+function joinFlight<T>(key: string, flight: Flight<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    flight.pinned = true;
+    return flight.promise;
+  }
+
+  flight.waiters++;
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      flight.waiters--;
+      // Last interested caller left: stop the shared work and let the next caller start fresh
+      if (flight.waiters === 0 && !flight.pinned) {
+        const registry = getRegistry();
+        if (registry.flights.get(key) === flight) registry.flights.delete(key);
+        flight.controller.abort(signal.reason);
+      }
+      reject(signal.reason);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    flight.promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Run `run` for `key` unless it is already running, in which case wait for that run.
+ * `run` gets its own signal, aborted only once every caller that joined has aborted.
+ */
+export function singleFlight<T>(
+  key: string,
+  run: (signal: AbortSignal) => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  signal?.throwIfAborted();
+  const registry = getRegistry();
+
+  let flight = registry.flights.get(key) as Flight<T> | undefined;
+  if (flight) {
+    registry.shared++;
+  } else {
+    flight = startFlight(key, run);
+  }
+  return joinFlight(key, flight, signal);
+}
+
+/**
+ * Batch form: keys already in flight are joined, the rest go to one `run` call whose
+ * results (in the order of the keys it was given) settle each key's flight.
+ * Returns results in the order of `keys`.
+ */
+export async function singleFlightBatch<T>(
+  keys: string[],
+  run: (keys: string[]) => Promise<T[]>
+): Promise<T[]> {
+  const registry = getRegistry();
+  const missing = Array.from(new Set(keys)).filter(key => !registry.flights.has(key));
+  registry.shared += keys.length - missing.length;
+
+  if (missing.length > 0) {
+    const batch = run(missing);
+    missing.forEach((key, index) => {
+      startFlight(key, () => batch.then(results => results[index]));
+    });
+  }
+
+  return Promise.all(keys.map(key => joinFlight(key, registry.flights.get(key) as Flight<T>)));
+}
+
+export function getSingleFlightStats(): SingleFlightStats {
+  const registry = getRegistry();
+  return {
+    inFlight: registry.flights.size,
+    started: registry.started,
+    shared: registry.shared,
+  };
+}
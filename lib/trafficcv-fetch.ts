@@ -1,22 +1,27 @@
 /**
- * High-fidelity traffic.cv fetch via Sovereign CF worker proxy.
+ * High-fidelity traffic.cv fetch via Sovereign CF worker proxies (rotated by lib/proxy-pool.ts).
  * Avoids Playwright + datacenter Cloudflare blocks; parses flight chunks directly.
  */
 
-import { TrafficData } from '@/types';
+import { CountryShare, DomainProfile, HistoricalMonth, KeywordEntry, TrafficData } from '@/types';
 import { parseTrafficObjectFromHtml, TrafficCvRaw } from './trafficcv-flight-parser';
+import { archiveRawPayload } from './db';
+import { acquireRateLimit, TRAFFIC_CV_HOST } from './rate-limiter';
+import { singleFlight } from './single-flight';
+import { pickProxy, recordProxyOutcome } from './proxy-pool';
+import {
+  assertCircuitClosed,
+  CircuitFailureKind,
+  isCircuitOpenError,
+  recordCircuitAbort,
+  recordCircuitFailure,
+  recordCircuitSuccess,
+} from './circuit-breaker';
 
-const DEFAULT_PROXY_URL =
-  process.env.TRAFFIC_CV_PROXY_URL ||
-  process.env.TRAFFIC_PROXY_URL ||
-  'https://backlink-savage-proxy.mingcomco.workers.dev';
-
-const FETCH_DELAY_MS = Math.max(2000, Number(process.env.TRAFFICCV_FETCH_DELAY_MS || 2000));
 const FETCH_TIMEOUT_MS = Math.max(8000, Number(process.env.TRAFFICCV_FETCH_TIMEOUT_MS || 25000));
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
+/** Keep raw HTML in raw_payloads for offline re-parse. Set TRAFFICCV_ARCHIVE_RAW=0 to disable. */
+const ARCHIVE_RAW = process.env.TRAFFICCV_ARCHIVE_RAW !== '0';
 
 function normalizeDomain(domain: string): string {
   let normalized = domain.toLowerCase().trim();
@@ -46,6 +51,11 @@ function formatDuration(seconds: number): string {
   return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}`;
 }
 
+function normalizeRank(rank: unknown): number | null {
+  const value = Math.round(Number(rank));
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
+
 function normalizeTrafficSources(sources: Record<string, number> = {}): Record<string, number> {
   const social = percent(Number(sources.socialOrganic || 0) + Number(sources.socialPaid || 0));
   const search = percent(Number(sources.searchOrganic || 0) + Number(sources.searchPaid || 0));
@@ -59,12 +69,172 @@ function normalizeTrafficSources(sources: Record<string, number> = {}): Record<s
   return { search, direct, social, mail, referrals, display, other };
 }
 
+function pickString(entry: Record<string, unknown>, keys: string[]): string | null {
+  for (const key of keys) {
+    const value = entry[key];
+    if (typeof value === 'string' && value.trim()) return value.trim();
+  }
+  return null;
+}
+
+function pickNumber(entry: Record<string, unknown>, keys: string[]): number | null {
+  for (const key of keys) {
+    const value = Number(entry[key]);
+    if (entry[key] !== null && entry[key] !== undefined && Number.isFinite(value)) return value;
+  }
+  return null;
+}
+
+/**
+ * Shares in one payload are either all fractions (0.42) or all percentages (42). Decided
+ * once per list from their sum, so a real 0.8% isn't mistaken for a fraction and stored as 80%.
+ * Only valid for complete distributions (countries); keyword lists are a top-N slice.
+ */
+function toPercentShares(shares: number[]): (share: number) => number {
+  const total = shares.reduce((sum, share) => sum + share, 0);
+  return total <= 1.01
+    ? share => percent(share)
+    : share => Math.round(share * 10) / 10;
+}
+
+/**
+ * Top countries arrive as loosely-shaped objects (SimilarWeb naming varies between
+ * `countryCode`/`CountryCode` and `visitsShare`/`share`/`Value`), usually with fractional shares.
+ */
+function normalizeTopCountries(countries: Array<Record<string, unknown>> = []): CountryShare[] {
+  const entries: Array<{ countryCode: string; countryName: string | null; share: number }> = [];
+
+  for (const entry of countries) {
+    if (!entry || typeof entry !== 'object') continue;
+
+    const countryCode = pickString(entry, ['countryCode', 'CountryCode', 'code', 'country', 'Country']);
+    const share = pickNumber(entry, ['visitsShare', 'share', 'value', 'Value', 'percentage']);
+    if (!countryCode || share === null) continue;
+
+    entries.push({
+      countryCode: countryCode.toUpperCase(),
+      countryName: pickString(entry, ['countryName', 'CountryName', 'name']),
+      share,
+    });
+  }
+
+  const scale = toPercentShares(entries.map(entry => entry.share));
+  return entries
+    .map(entry => ({ ...entry, share: scale(entry.share) }))
+    .sort((a, b) => b.share - a.share);
+}
+
+/** SimilarWeb's `visitsShare` is always a fraction of visits */
+const FRACTION_SHARE_KEYS = ['visitsShare'];
+const KEYWORD_SHARE_KEYS = ['share', 'visitsShare', 'value', 'Value', 'traffic'];
+
+/**
+ * Keyword lists are a top-N slice, so their shares don't have to add up to anything and
+ * the sum heuristic used for countries can't tell 0.4% from 40%. The unit comes from the
+ * field instead: `visitsShare` is a fraction, other fields are taken as percentages
+ * unless the list adds up to a complete fractional distribution.
+ */
+function normalizeTopKeywords(keywords: Array<Record<string, unknown>> = []): KeywordEntry[] {
+  const result: Array<KeywordEntry & { fraction: boolean }> = [];
+  const seen = new Set<string>();
+
+  for (const entry of keywords) {
+    if (!entry || typeof entry !== 'object') continue;
+
+    const keyword = pickString(entry, ['keyword', 'Keyword', 'name', 'term', 'searchTerm']);
+    if (!keyword || seen.has(keyword.toLowerCase())) continue;
+    seen.add(keyword.toLowerCase());
+
+    const shareKey = KEYWORD_SHARE_KEYS.find(key => pickNumber(entry, [key]) !== null);
+
+    result.push({
+      keyword,
+      share: shareKey ? pickNumber(entry, [shareKey]) : null,
+      volume: pickNumber(entry, ['volume', 'searchVolume', 'Volume']),
+      cpc: pickNumber(entry, ['cpc', 'CPC', 'costPerClick']),
+      fraction: !!shareKey && FRACTION_SHARE_KEYS.includes(shareKey),
+    });
+  }
+
+  const shares = result.map(entry => entry.share).filter((share): share is number => share !== null);
+  const total = shares.reduce((sum, share) => sum + share, 0);
+  const completeFractions = shares.length > 0 && total >= 0.99 && total <= 1.01;
+
+  return result.map(({ fraction, ...entry }) => {
+    if (entry.share === null) return entry;
+    const share = fraction || completeFractions ? percent(entry.share) : Math.round(entry.share * 10) / 10;
+    return { ...entry, share };
+  });
+}
+
+function toIsoDate(value: unknown): string | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return null;
+  return date.toISOString().split('T')[0];
+}
+
+export function normalizeDomainProfile(
+  whois: Record<string, unknown> = {},
+  domainAgeDays?: number
+): DomainProfile | null {
+  const registrarValue = whois.registrar;
+  const registrar =
+    registrarValue && typeof registrarValue === 'object'
+      ? pickString(registrarValue as Record<string, unknown>, ['name', 'registrarName'])
+      : pickString(whois, ['registrar', 'registrarName', 'Registrar']);
+
+  const createdAt = toIsoDate(
+    whois.createdDate ?? whois.creationDate ?? whois.created ?? whois.registrationDate ?? whois.registeredAt
+  );
+  const expiresAt = toIsoDate(
+    whois.expiresDate ?? whois.expirationDate ?? whois.expiryDate ?? whois.registryExpiryDate ?? whois.expires
+  );
+
+  let ageDays = Number.isFinite(Number(domainAgeDays)) && Number(domainAgeDays) > 0
+    ? Math.round(Number(domainAgeDays))
+    : null;
+  if (ageDays === null && createdAt) {
+    ageDays = Math.floor((Date.now() - new Date(createdAt).getTime()) / (1000 * 60 * 60 * 24));
+  }
+
+  if (!registrar && !createdAt && !expiresAt && ageDays === null) return null;
+
+  return { registrar, createdAt, expiresAt, ageDays };
+}
+
+/**
+ * Convert the `monthlyVisits` series (keys like "2025-09-01" or "2025/09") into history rows,
+ * newest first. The newest month is the one `overview.visits` reports, which storeTrafficData
+ * already writes under the check month — keeping it here would make calculateGrowthRate
+ * compare that month with itself.
+ */
+export function normalizeMonthlyVisits(monthlyVisits: Record<string, number> = {}): HistoricalMonth[] {
+  const byMonth = new Map<string, number>();
+
+  for (const [key, value] of Object.entries(monthlyVisits)) {
+    const match = key.match(/^(\d{4})[-\/](\d{1,2})/);
+    const visits = Math.round(Number(value));
+    if (!match || !Number.isFinite(visits) || visits < 0) continue;
+
+    const month = Number(match[2]);
+    if (month < 1 || month > 12) continue;
+    byMonth.set(`${match[1]}-${String(month).padStart(2, '0')}`, visits);
+  }
+
+  return Array.from(byMonth.entries())
+    .sort(([a], [b]) => b.localeCompare(a))
+    .slice(1)
+    .map(([monthYear, visits]) => ({ monthYear, monthlyVisits: visits }));
+}
+
 export function trafficCvRawToTrafficData(domain: string, traffic: TrafficCvRaw): TrafficData | null {
   const visits = Number(traffic.overview?.visits || 0);
   if (!visits) return null;
 
   const avgDurationSeconds = Math.round(Number(traffic.overview?.timeOnSite || 0));
   const sources = normalizeTrafficSources(traffic.trafficSources || {});
+  const globalRank = normalizeRank(traffic.overview?.globalRank);
 
   return {
     domain,
@@ -73,22 +243,61 @@ export function trafficCvRawToTrafficData(domain: string, traffic: TrafficCvRaw)
     avgSessionDurationSeconds: avgDurationSeconds > 0 ? avgDurationSeconds : null,
     bounceRate: normalizeBounceRate(Number(traffic.overview?.bounceRate || 0)),
     pagesPerVisit: Math.round(Number(traffic.overview?.pagePerVisit || 0) * 100) / 100 || null,
+    globalRank,
+    countryRank: normalizeRank(traffic.overview?.countryRank),
+    rankSource: globalRank !== null ? 'traffic.cv' : null,
     checkedAt: new Date().toISOString(),
     trafficSources: sources,
+    topCountries: normalizeTopCountries(traffic.topCountries),
+    topKeywords: normalizeTopKeywords(traffic.topKeywords),
+    domainProfile: normalizeDomainProfile(traffic.whois, traffic.domainAgeDays),
+    historicalMonths: normalizeMonthlyVisits(traffic.monthlyVisits),
     error: null,
   };
 }
 
-async function fetchTrafficCvHtml(domain: string): Promise<string> {
+async function fetchTrafficCvHtml(domain: string, signal?: AbortSignal): Promise<string> {
   const normalized = normalizeDomain(domain);
   const target = `https://traffic.cv/${encodeURIComponent(normalized)}`;
-  const proxyBase = DEFAULT_PROXY_URL.replace(/\/$/, '');
+  // Healthiest worker proxy whose breaker isn't open (lib/proxy-pool.ts)
+  const proxy = pickProxy('fetch');
+  if (!proxy?.url) {
+    throw new Error('No worker proxy configured (TL_PROXIES)');
+  }
+  const proxyBase = proxy.url;
   const url = `${proxyBase}/${target}`;
 
+  // Fail fast while this proxy is blocked (lib/circuit-breaker.ts)
+  assertCircuitClosed(TRAFFIC_CV_HOST, proxyBase);
+
   const controller = new AbortController();
   const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  let verdictRecorded = false;
+  let startedAt = Date.now();
+
+  // One verdict per request, fed to the breaker and the proxy's health score
+  const recordVerdict = (outcome: 'success' | CircuitFailureKind, message?: string) => {
+    verdictRecorded = true;
+    if (outcome === 'success') {
+      recordCircuitSuccess(TRAFFIC_CV_HOST, proxyBase);
+    } else {
+      recordCircuitFailure(TRAFFIC_CV_HOST, proxyBase, outcome, message);
+    }
+    recordProxyOutcome(proxy, {
+      ok: outcome === 'success',
+      challenge: outcome === 'challenge',
+      latencyMs: Date.now() - startedAt,
+      error: message,
+    });
+  };
 
   try {
+    // Shared per-egress budget for traffic.cv (lib/rate-limiter.ts) — replaces the fixed per-batch delay
+    await acquireRateLimit(TRAFFIC_CV_HOST, proxyBase, signal);
+    startedAt = Date.now();
+
     const response = await fetch(url, {
       signal: controller.signal,
       headers: {
@@ -99,56 +308,116 @@ async function fetchTrafficCvHtml(domain: string): Promise<string> {
     });
 
     if (!response.ok) {
-      throw new Error(`traffic.cv proxy ${response.status}`);
+      const message = `traffic.cv proxy ${response.status}`;
+      // 403/429/5xx: blocked or upstream down. Other 4xx are answers about this one domain.
+      if (response.status === 403 || response.status === 429 || response.status >= 500) {
+        recordVerdict('error', message);
+      } else {
+        recordVerdict('success');
+      }
+      throw new Error(message);
     }
 
     const html = await response.text();
     if (html.includes('Just a moment') && !html.includes('"traffic":')) {
+      recordVerdict('challenge', 'traffic.cv cloudflare challenge');
       throw new Error('traffic.cv cloudflare challenge');
     }
 
+    recordVerdict('success');
     return html;
+  } catch (error) {
+    if (!verdictRecorded) {
+      if (signal?.aborted) {
+        recordCircuitAbort(TRAFFIC_CV_HOST, proxyBase);
+      } else {
+        // Network error or timeout
+        recordVerdict('error', error instanceof Error ? error.message : 'fetch failed');
+      }
+    }
+    throw error;
   } finally {
     clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
   }
 }
 
-export async function fetchTrafficCvDomain(domain: string): Promise<TrafficData> {
-  const normalized = normalizeDomain(domain);
-
-  try {
-    const html = await fetchTrafficCvHtml(normalized);
-    const traffic = parseTrafficObjectFromHtml(html);
-
-    if (!traffic) {
-      return {
-        domain: normalized,
-        monthlyVisits: null,
-        avgSessionDuration: null,
-        avgSessionDurationSeconds: null,
-        bounceRate: null,
-        pagesPerVisit: null,
-        checkedAt: new Date().toISOString(),
-        trafficSources: null,
-        error: 'traffic.cv data object not found',
-      };
-    }
-
-    const parsed = trafficCvRawToTrafficData(normalized, traffic);
-    if (parsed) return parsed;
+/**
+ * Turn a traffic.cv page into a TrafficData row stamped with `fetchedAt`.
+ * Shared by the live fetch and the raw payload re-parse (scripts/reparse-raw-payloads.ts),
+ * which both pass the raw_payloads timestamp so a replayed row lines up with traffic_latest.
+ */
+export function parseTrafficCvHtml(
+  domain: string,
+  html: string,
+  fetchedAt: string = new Date().toISOString()
+): TrafficData {
+  const traffic = parseTrafficObjectFromHtml(html);
 
+  if (!traffic) {
     return {
-      domain: normalized,
-      monthlyVisits: 0,
+      domain: domain,
+      monthlyVisits: null,
       avgSessionDuration: null,
       avgSessionDurationSeconds: null,
       bounceRate: null,
       pagesPerVisit: null,
-      checkedAt: new Date().toISOString(),
+      checkedAt: fetchedAt,
       trafficSources: null,
-      error: null,
+      error: 'traffic.cv data object not found',
     };
+  }
+
+  const parsed = trafficCvRawToTrafficData(domain, traffic);
+  if (parsed) return { ...parsed, checkedAt: fetchedAt };
+
+  // No visits, but WHOIS still tells us whether the domain is merely young or abandoned
+  return {
+    domain: domain,
+    monthlyVisits: 0,
+    avgSessionDuration: null,
+    avgSessionDurationSeconds: null,
+    bounceRate: null,
+    pagesPerVisit: null,
+    checkedAt: fetchedAt,
+    trafficSources: null,
+    domainProfile: normalizeDomainProfile(traffic.whois, traffic.domainAgeDays),
+    error: null,
+  };
+}
+
+/**
+ * Fetch one domain. Concurrent calls for the same domain (two users, the live lookup and
+ * the queue worker) share a single request.
+ */
+export async function fetchTrafficCvDomain(domain: string, signal?: AbortSignal): Promise<TrafficData> {
+  const normalized = normalizeDomain(domain);
+  const result = await singleFlight(
+    `traffic.cv:${normalized}`,
+    flightSignal => fetchTrafficCvDomainOnce(normalized, flightSignal),
+    signal
+  );
+  return { ...result };
+}
+
+async function fetchTrafficCvDomainOnce(normalized: string, signal: AbortSignal): Promise<TrafficData> {
+  try {
+    const html = await fetchTrafficCvHtml(normalized, signal);
+    const fetchedAt = new Date().toISOString();
+
+    // Archive before parsing: when traffic.cv changes format the unparseable pages are the ones we need
+    if (ARCHIVE_RAW) {
+      try {
+        archiveRawPayload(normalized, html, fetchedAt);
+      } catch (archiveError) {
+        console.warn(`[FlightFetch] Failed to archive payload for ${normalized}:`, archiveError);
+      }
+    }
+
+    return parseTrafficCvHtml(normalized, html, fetchedAt);
   } catch (error) {
+    // Aborted by every caller (job paused/cancelled), not a traffic.cv failure
+    if (signal.aborted) throw signal.reason;
     return {
       domain: normalized,
       monthlyVisits: null,
@@ -164,14 +433,23 @@ export async function fetchTrafficCvDomain(domain: string): Promise<TrafficData>
 }
 
 /**
- * Fetch multiple domains sequentially via proxy (2s delay between requests).
+ * Fetch multiple domains sequentially via proxy, paced by the shared traffic.cv rate limiter.
  */
-export async function fetchTrafficCvBatch(domains: string[]): Promise<TrafficData[]> {
+export async function fetchTrafficCvBatch(domains: string[], signal?: AbortSignal): Promise<TrafficData[]> {
   const results: TrafficData[] = [];
 
   for (let index = 0; index < domains.length; index++) {
-    if (index > 0) await sleep(FETCH_DELAY_MS);
-    results.push(await fetchTrafficCvDomain(domains[index]));
+    signal?.throwIfAborted();
+    const result = await fetchTrafficCvDomain(domains[index], signal);
+    results.push(result);
+
+    // Breaker opened: don't hit it once per remaining domain — they all fall through to the next provider
+    if (isCircuitOpenError(result.error)) {
+      for (const domain of domains.slice(index + 1)) {
+        results.push({ ...result, domain: normalizeDomain(domain) });
+      }
+      break;
+    }
   }
 
   return results;
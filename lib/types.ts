@@ -2,15 +2,34 @@
  * UI-facing traffic row shape for tables and exports.
  */
 
+import type { CountryShare } from "@/types";
+
 export type TrafficStatus = "success" | "error" | "pending";
 
 export interface TrafficData {
   domain: string;
   monthlyVisits: number | null;
+  visitsEstimated: boolean;
+  visitsLow: number | null;
+  visitsHigh: number | null;
   growth: number | null;
   avgDuration: number | null;
   pagesPerVisit: number | null;
   bounceRate: number | null;
+  globalRank: number | null;
+  countryRank: number | null;
+  rankSource: string | null;
+  topCountries: CountryShare[] | null;
+  domainAgeDays: number | null;
+  registrar: string | null;
+  domainCreatedAt: string | null;
+  domainExpiresAt: string | null;
+  provider: string | null;
+  confidence: number | null;
+  conflicts: string[]; // Fields providers disagreed on
+  source: "manual" | null;
+  overriddenFields: string[];
+  annotation: string | null;
   status: TrafficStatus;
   error?: string | null;
 }
@@ -0,0 +1,310 @@
+/**
+ * Named watchlists (watchlists / watchlist_domains in the SQLite DB)
+ *
+ * A watchlist is a saved set of domains with an optional owner and tags, so recurring
+ * competitor lists don't have to be pasted every month. Loading one reads stored rows
+ * only; refreshDueWatchlists() — run by the queue worker — queues a maintenance job for
+ * domains whose data isDataFresh() says is outdated once the new month should be out.
+ */
+
+import { randomUUID } from 'crypto';
+import { TrafficData, Watchlist } from '@/types';
+import {
+  applyTrafficOverrides,
+  getDb,
+  getLatestTrafficDataBatch,
+  isDataFresh,
+} from './db';
+import { isValidDomain, normalizeDomain } from './domain-utils';
+import { createScrapeJob, getQueuedDomains } from './scrape-queue';
+
+export interface WatchlistInput {
+  name?: string;
+  owner?: string | null;
+  tags?: string[];
+  domains?: string[];
+}
+
+export class WatchlistNameTakenError extends Error {
+  constructor(public readonly watchlistName: string) {
+    super(`A watchlist named "${watchlistName}" already exists`);
+    this.name = 'WatchlistNameTakenError';
+  }
+}
+
+const MAX_NAME_LENGTH = 100;
+const MAX_OWNER_LENGTH = 200;
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 40;
+const MAX_DOMAINS = 1000;
+
+/** A watchlist is queued for refresh at most this often (failed domains retry the next day) */
+const REFRESH_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+function parseText(value: unknown, name: string, maxLength: number): string | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== 'string') throw new Error(`${name} must be a string`);
+  const trimmed = value.trim();
+  if (trimmed.length > maxLength) throw new Error(`${name} must be at most ${maxLength} characters`);
+  return trimmed || null;
+}
+
+function parseTags(value: unknown): string[] {
+  if (value === null || value === undefined) return [];
+  const raw = typeof value === 'string' ? value.split(',') : value;
+  if (!Array.isArray(raw) || raw.some(tag => typeof tag !== 'string')) {
+    throw new Error('tags must be an array of strings');
+  }
+  const tags = Array.from(new Set(raw.map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+  if (tags.length > MAX_TAGS) throw new Error(`At most ${MAX_TAGS} tags`);
+  if (tags.some(tag => tag.length > MAX_TAG_LENGTH)) {
+    throw new Error(`Tags must be at most ${MAX_TAG_LENGTH} characters`);
+  }
+  return tags;
+}
+
+function parseDomainList(value: unknown): string[] {
+  const raw = typeof value === 'string' ? value.split(/[\n,]+/) : value;
+  if (!Array.isArray(raw) || raw.some(domain => typeof domain !== 'string')) {
+    throw new Error('domains must be an array of strings');
+  }
+
+  const domains: string[] = [];
+  const invalid: string[] = [];
+  for (const entry of raw as string[]) {
+    if (!entry.trim()) continue;
+    const domain = normalizeDomain(entry);
+    if (!isValidDomain(domain)) {
+      invalid.push(entry.trim());
+    } else if (!domains.includes(domain)) {
+      domains.push(domain);
+    }
+  }
+
+  if (invalid.length > 0) {
+    throw new Error(`Invalid domain(s): ${invalid.slice(0, 5).join(', ')}${invalid.length > 5 ? ', …' : ''}`);
+  }
+  if (domains.length === 0) throw new Error('Provide at least one domain');
+  if (domains.length > MAX_DOMAINS) throw new Error(`At most ${MAX_DOMAINS} domains per watchlist`);
+  return domains;
+}
+
+/**
+ * Validate a request body. `partial` (updates) only checks the fields present.
+ * Throws an Error with a user-facing message on invalid input.
+ */
+export function parseWatchlistInput(body: unknown, partial: boolean = false): WatchlistInput {
+  if (!body || typeof body !== 'object') throw new Error('JSON body required');
+  const source = body as Record<string, unknown>;
+  const input: WatchlistInput = {};
+
+  if (!partial || source.name !== undefined) {
+    const name = parseText(source.name, 'name', MAX_NAME_LENGTH);
+    if (!name) throw new Error('name is required');
+    input.name = name;
+  }
+  if (!partial || source.owner !== undefined) {
+    input.owner = parseText(source.owner, 'owner', MAX_OWNER_LENGTH);
+  }
+  if (!partial || source.tags !== undefined) {
+    input.tags = parseTags(source.tags);
+  }
+  if (!partial || source.domains !== undefined) {
+    input.domains = parseDomainList(source.domains);
+  }
+  return input;
+}
+
+function mapWatchlistRow(row: any, domains: string[]): Watchlist {
+  let tags: string[] = [];
+  try {
+    tags = JSON.parse(row.tags);
+  } catch {
+    tags = [];
+  }
+  return {
+    id: row.id,
+    name: row.name,
+    owner: row.owner,
+    tags,
+    domains,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    lastRefreshAt: row.last_refresh_at,
+    lastRefreshJobId: row.last_refresh_job_id,
+  };
+}
+
+function getWatchlistDomains(id: string): string[] {
+  const rows = getDb()
+    .prepare('SELECT domain FROM watchlist_domains WHERE watchlist_id = ? ORDER BY position')
+    .all(id) as { domain: string }[];
+  return rows.map(row => row.domain);
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: string })?.code === 'SQLITE_CONSTRAINT_UNIQUE';
+}
+
+/**
+ * All watchlists, optionally filtered by owner and/or tag, by name
+ */
+export function getWatchlists(filter: { owner?: string; tag?: string } = {}): Watchlist[] {
+  const database = getDb();
+  const rows = database.prepare(`
+    SELECT * FROM watchlists
+    WHERE (? IS NULL OR owner = ? COLLATE NOCASE)
+    ORDER BY name COLLATE NOCASE
+  `).all(filter.owner ?? null, filter.owner ?? null) as any[];
+
+  const tag = filter.tag?.trim().toLowerCase();
+  return rows
+    .map(row => mapWatchlistRow(row, getWatchlistDomains(row.id)))
+    .filter(watchlist => !tag || watchlist.tags.includes(tag));
+}
+
+export function getWatchlist(id: string): Watchlist | null {
+  const row = getDb().prepare('SELECT * FROM watchlists WHERE id = ?').get(id);
+  return row ? mapWatchlistRow(row, getWatchlistDomains(id)) : null;
+}
+
+function replaceDomains(id: string, domains: string[]): void {
+  const database = getDb();
+  database.prepare('DELETE FROM watchlist_domains WHERE watchlist_id = ?').run(id);
+  const insert = database.prepare(
+    'INSERT INTO watchlist_domains (watchlist_id, domain, position) VALUES (?, ?, ?)'
+  );
+  domains.forEach((domain, position) => insert.run(id, domain, position));
+}
+
+/**
+ * Create a watchlist from validated input (parseWatchlistInput)
+ */
+export function createWatchlist(input: Required<WatchlistInput>): Watchlist {
+  const database = getDb();
+  const id = randomUUID();
+  const now = nowIso();
+
+  try {
+    database.transaction(() => {
+      database.prepare(`
+        INSERT INTO watchlists (id, name, owner, tags, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `).run(id, input.name, input.owner, JSON.stringify(input.tags), now, now);
+      replaceDomains(id, input.domains);
+    })();
+  } catch (error) {
+    if (isUniqueViolation(error)) throw new WatchlistNameTakenError(input.name);
+    throw error;
+  }
+
+  return getWatchlist(id)!;
+}
+
+/**
+ * Apply a partial update; null if the watchlist does not exist
+ */
+export function updateWatchlist(id: string, input: WatchlistInput): Watchlist | null {
+  const database = getDb();
+  const existing = getWatchlist(id);
+  if (!existing) return null;
+
+  try {
+    database.transaction(() => {
+      database.prepare(`
+        UPDATE watchlists SET name = ?, owner = ?, tags = ?, updated_at = ? WHERE id = ?
+      `).run(
+        input.name ?? existing.name,
+        input.owner !== undefined ? input.owner : existing.owner,
+        JSON.stringify(input.tags ?? existing.tags),
+        nowIso(),
+        id
+      );
+      if (input.domains) replaceDomains(id, input.domains);
+    })();
+  } catch (error) {
+    if (isUniqueViolation(error)) throw new WatchlistNameTakenError(input.name ?? existing.name);
+    throw error;
+  }
+
+  return getWatchlist(id);
+}
+
+export function deleteWatchlist(id: string): boolean {
+  return getDb().prepare('DELETE FROM watchlists WHERE id = ?').run(id).changes > 0;
+}
+
+/**
+ * Stored rows for a watchlist's domains in list order, without scraping. Domains never
+ * checked get an empty row (checkedAt null); `stale` lists those isDataFresh() considers outdated.
+ */
+export function getWatchlistResults(watchlist: Watchlist): { results: TrafficData[]; stale: string[] } {
+  // Stored rows already carry manual overrides; an override may exist for an unchecked domain too
+  const stored = getLatestTrafficDataBatch(watchlist.domains);
+  const missing = applyTrafficOverrides(
+    watchlist.domains
+      .filter(domain => !stored.has(domain))
+      .map(domain => ({
+        domain,
+        monthlyVisits: null,
+        avgSessionDuration: null,
+        avgSessionDurationSeconds: null,
+        bounceRate: null,
+        pagesPerVisit: null,
+        checkedAt: null, // Never checked
+        error: null,
+      }))
+  );
+  const byDomain = new Map([...stored, ...missing.map(row => [row.domain, row] as const)]);
+
+  return {
+    results: watchlist.domains.map(domain => byDomain.get(domain)!),
+    stale: watchlist.domains.filter(domain => !isDataFresh(domain)),
+  };
+}
+
+/**
+ * Queue a maintenance-lane refresh job per watchlist whose domains have outdated data —
+ * after the monthly release isDataFresh() turns the previous month stale. Domains already
+ * queued elsewhere are skipped; each watchlist is refreshed at most once a day.
+ * Returns the ids of the jobs created.
+ */
+export function refreshDueWatchlists(): string[] {
+  const database = getDb();
+  const now = Date.now();
+  const claim = database.prepare(`
+    UPDATE watchlists SET last_refresh_at = ?
+    WHERE id = ? AND (last_refresh_at IS NULL OR last_refresh_at < ?)
+  `);
+  const jobIds: string[] = [];
+
+  for (const watchlist of getWatchlists()) {
+    if (watchlist.lastRefreshAt && now - Date.parse(watchlist.lastRefreshAt) < REFRESH_INTERVAL_MS) continue;
+
+    const stale = watchlist.domains.filter(domain => !isDataFresh(domain));
+    const queued = getQueuedDomains(stale);
+    const due = stale.filter(domain => !queued.has(domain));
+    if (due.length === 0) continue;
+
+    // Another worker process may be looking at the same watchlist
+    const claimed = claim.run(
+      new Date(now).toISOString(),
+      watchlist.id,
+      new Date(now - REFRESH_INTERVAL_MS).toISOString()
+    ).changes > 0;
+    if (!claimed) continue;
+
+    const job = createScrapeJob(due, { kind: 'refresh', priority: 'maintenance' });
+    database
+      .prepare('UPDATE watchlists SET last_refresh_job_id = ? WHERE id = ?')
+      .run(job.id, watchlist.id);
+    jobIds.push(job.id);
+    console.log(`[Watchlists] Queued refresh job ${job.id} for "${watchlist.name}" (${due.length} domains)`);
+  }
+
+  return jobIds;
+}
@@ -0,0 +1,158 @@
+/**
+ * Queue worker heartbeats
+ *
+ * Every worker process (embedded in Next.js or scripts/scrape-worker.ts) upserts a row in
+ * worker_heartbeats on a timer, so the web tier can tell from SQLite alone whether anything
+ * is consuming the queue — and see the worker's browser pool and breakers, which live in
+ * that process's memory. The same row carries browser recycle requests to the worker.
+ */
+
+import { getDb } from './db';
+
+export type WorkerMode = 'embedded' | 'standalone';
+
+export interface WorkerBeat {
+  workerId: string;
+  mode: WorkerMode;
+  hostname: string;
+  pid: number;
+  loops: number;
+  activeBatches: number;
+  batchesDone: number;
+  rssMb: number | null;
+  stats: Record<string, unknown> | null;
+  startedAt: string;
+}
+
+export interface WorkerHeartbeat extends WorkerBeat {
+  lastBeatAt: string;
+  stoppedAt: string | null;
+  recycleRequestedAt: string | null;
+  alive: boolean;
+}
+
+/** Beat interval of the queue worker */
+export const HEARTBEAT_MS = 10000;
+
+/** A worker that missed this many beats counts as gone */
+const MISSED_BEATS = 3;
+
+/** Rows of stopped or vanished workers are kept this long for the health view */
+const RETENTION_MS = 24 * 60 * 60 * 1000;
+
+export function recordHeartbeat(beat: WorkerBeat): void {
+  const database = getDb();
+  const now = new Date();
+
+  database.prepare(`
+    INSERT INTO worker_heartbeats (
+      worker_id, mode, hostname, pid, loops, active_batches, batches_done, rss_mb, stats,
+      started_at, last_beat_at, stopped_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, NULL)
+    ON CONFLICT(worker_id) DO UPDATE SET
+      loops = excluded.loops,
+      active_batches = excluded.active_batches,
+      batches_done = excluded.batches_done,
+      rss_mb = excluded.rss_mb,
+      stats = excluded.stats,
+      last_beat_at = excluded.last_beat_at,
+      stopped_at = NULL
+  `).run(
+    beat.workerId,
+    beat.mode,
+    beat.hostname,
+    beat.pid,
+    beat.loops,
+    beat.activeBatches,
+    beat.batchesDone,
+    beat.rssMb,
+    beat.stats ? JSON.stringify(beat.stats) : null,
+    beat.startedAt,
+    now.toISOString()
+  );
+
+  database
+    .prepare('DELETE FROM worker_heartbeats WHERE last_beat_at < ?')
+    .run(new Date(now.getTime() - RETENTION_MS).toISOString());
+}
+
+/**
+ * Mark a worker as shut down cleanly, so it drops out of the live count at once
+ */
+export function markWorkerStopped(workerId: string): void {
+  const now = new Date().toISOString();
+  getDb()
+    .prepare('UPDATE worker_heartbeats SET stopped_at = ?, active_batches = 0, last_beat_at = ? WHERE worker_id = ?')
+    .run(now, now, workerId);
+}
+
+/**
+ * Ask live standalone workers to recycle their browser pool on their next beat
+ * (their Chromium isn't reachable from the web process). Returns how many were asked.
+ */
+export function requestBrowserRecycle(): number {
+  const staleBefore = new Date(Date.now() - HEARTBEAT_MS * MISSED_BEATS).toISOString();
+  return getDb().prepare(`
+    UPDATE worker_heartbeats SET recycle_requested_at = ?
+    WHERE mode = 'standalone' AND stopped_at IS NULL AND last_beat_at >= ?
+  `).run(new Date().toISOString(), staleBefore).changes;
+}
+
+/**
+ * Clear and return a pending recycle request for this worker
+ */
+export function takeBrowserRecycleRequest(workerId: string): boolean {
+  return getDb().prepare(`
+    UPDATE worker_heartbeats SET recycle_requested_at = NULL
+    WHERE worker_id = ? AND recycle_requested_at IS NOT NULL
+  `).run(workerId).changes > 0;
+}
+
+/**
+ * Workers seen in the last day, most recent beat first
+ */
+export function getWorkerHeartbeats(): WorkerHeartbeat[] {
+  const rows = getDb()
+    .prepare('SELECT * FROM worker_heartbeats ORDER BY last_beat_at DESC')
+    .all() as Array<{
+      worker_id: string;
+      mode: WorkerMode;
+      hostname: string;
+      pid: number;
+      loops: number;
+      active_batches: number;
+      batches_done: number;
+      rss_mb: number | null;
+      stats: string | null;
+      started_at: string;
+      last_beat_at: string;
+      stopped_at: string | null;
+      recycle_requested_at: string | null;
+    }>;
+  const staleBefore = Date.now() - HEARTBEAT_MS * MISSED_BEATS;
+
+  return rows.map(row => {
+    let stats: Record<string, unknown> | null = null;
+    try {
+      stats = row.stats ? JSON.parse(row.stats) : null;
+    } catch {
+      stats = null;
+    }
+    return {
+      workerId: row.worker_id,
+      mode: row.mode,
+      hostname: row.hostname,
+      pid: row.pid,
+      loops: row.loops,
+      activeBatches: row.active_batches,
+      batchesDone: row.batches_done,
+      rssMb: row.rss_mb,
+      stats,
+      startedAt: row.started_at,
+      lastBeatAt: row.last_beat_at,
+      stoppedAt: row.stopped_at,
+      recycleRequestedAt: row.recycle_requested_at,
+      alive: !row.stopped_at && Date.parse(row.last_beat_at) >= staleBefore,
+    };
+  });
+}
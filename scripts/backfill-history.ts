@@ -0,0 +1,69 @@
+/**
+ * TrafficLens History Backfill
+ * ============================
+ * Re-fetches the traffic.cv flight payload for domains already in the database
+ * and writes every month of `monthlyVisits` into traffic_snapshots, so growth
+ * and /api/trends have real history instead of the 3 months the DOM graph gave us.
+ *
+ * Usage:
+ *   tsx scripts/backfill-history.ts [--min-months 6] [--limit 500] [--dry-run]
+ */
+
+import { chunkArray } from '../lib/domain-utils';
+import { isCompleteTrafficResult } from '../lib/trafficcv-fetch';
+import { getProviderChain, runProviderChain } from '../lib/providers';
+import { getDomainsNeedingHistory, storeTrafficDataWithHistory } from '../lib/db';
+
+function getArgValue(args: string[], name: string, fallback: number): number {
+  const index = args.indexOf(name);
+  if (index < 0 || index + 1 >= args.length) return fallback;
+  const value = parseInt(args[index + 1], 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const minMonths = getArgValue(args, '--min-months', 6);
+  const limit = getArgValue(args, '--limit', 1000);
+  const dryRun = args.includes('--dry-run');
+
+  const domains = getDomainsNeedingHistory(minMonths, limit);
+  console.log(`[Backfill] ${domains.length} domain(s) with fewer than ${minMonths} months of history`);
+
+  if (dryRun) {
+    console.log(domains.join('\n'));
+    return;
+  }
+
+  // Only the flight payload carries the monthly series — no Playwright fallback here
+  const chain = getProviderChain('fetch-proxy');
+
+  let backfilled = 0;
+  let monthsWritten = 0;
+  let failed = 0;
+
+  for (const batch of chunkArray(domains, 10)) {
+    const results = await runProviderChain(batch, chain, { priority: 'maintenance' });
+
+    for (const result of results) {
+      if (!isCompleteTrafficResult(result) || result.error) {
+        failed++;
+        console.warn(`[Backfill] ${result.domain}: ${result.error || 'no data'}`);
+        continue;
+      }
+
+      storeTrafficDataWithHistory(result);
+      backfilled++;
+      monthsWritten += result.historicalMonths?.length || 0;
+    }
+
+    console.log(`[Backfill] ${backfilled + failed}/${domains.length} processed`);
+  }
+
+  console.log(`[Backfill] Done — ${backfilled} domain(s), ${monthsWritten} month(s) written, ${failed} failed`);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -1,5 +1,21 @@
+/**
+ * Proxy Benchmark
+ * ===============
+ * Loads every proxy from the pool (TL_PROXIES, see lib/proxy-pool.ts), loads a set of
+ * popular sites through each one and folds the success rate and latency into
+ * proxy_health, so rotation starts from measured scores.
+ *
+ * Usage:
+ *   tsx scripts/benchmark_proxy.ts [--proxy <id>] [--limit 30]
+ */
 
 import { chromium } from 'playwright';
+import {
+    getConfiguredProxies,
+    ProxyDefinition,
+    recordProxyBenchmark,
+    toPlaywrightProxy,
+} from '../lib/proxy-pool';
 
 // Top 30 domains for testing
 const DOMAINS = [
@@ -11,74 +27,109 @@ const DOMAINS = [
     'salesforce.com', 'paypal.com', 'spotify.com', 'slack.com', 'dropbox.com'
 ];
 
-async function benchmark() {
-    console.log(`🚀 Starting Benchmark: 30 Domains`);
-    console.log(`⚙️  Strategy: STICKY IP (Session-based)`);
+const BATCH_SIZE = 5; // Conservative batching for test
+
+type Result = { domain: string; status: 'ok' | 'fail'; timeMs: number; ip: string };
+
+function getArg(name: string): string | undefined {
+    const index = process.argv.indexOf(name);
+    return index >= 0 ? process.argv[index + 1] : undefined;
+}
 
-    const BATCH_SIZE = 5; // Conservative batching for test
-    const results: { domain: string; status: 'ok' | 'fail'; timeMs: number; ip: string }[] = [];
+/**
+ * Worker proxies are URL prefixes — fetch through them instead of launching a browser
+ */
+async function checkViaWorker(proxy: ProxyDefinition, domain: string): Promise<string> {
+    const resp = await fetch(`${proxy.url}/https://${domain}`, { signal: AbortSignal.timeout(30000) });
+    if (!resp.ok) throw new Error(`HTTP ${resp.status}`);
+    await resp.text();
+    return 'worker';
+}
+
+async function checkViaBrowser(proxy: ProxyDefinition, domain: string): Promise<string> {
+    const browser = await chromium.launch({
+        headless: true,
+        proxy: toPlaywrightProxy(proxy) ?? undefined,
+    });
+    try {
+        const page = await browser.newPage();
+
+        // 1. Check IP (lightweight validation)
+        await page.goto('https://api.ipify.org?format=json');
+        const ipJson = JSON.parse(await page.evaluate(() => document.body.innerText));
+
+        // 2. Simulate "Scrape" (Simple Nav)
+        // We use a lighter target than traffic.cv for the benchmark to rely solely on proxy speed,
+        // to avoid getting the benchmark IP blocked by traffic.cv during a "test".
+        await page.goto(`http://${domain}`, { waitUntil: 'domcontentloaded', timeout: 30000 });
+        return ipJson.ip;
+    } finally {
+        await browser.close();
+    }
+}
 
+async function benchmarkProxy(proxy: ProxyDefinition, domains: string[]) {
+    console.log(`\n🚀 Benchmarking ${proxy.id} (${proxy.kind}) on ${domains.length} domains`);
+    const results: Result[] = [];
     const startTime = Date.now();
 
-    for (let i = 0; i < DOMAINS.length; i += BATCH_SIZE) {
-        const batch = DOMAINS.slice(i, i + BATCH_SIZE);
-        console.log(`\nProcessing Batch ${i / BATCH_SIZE + 1}... (${batch.join(', ')})`);
+    for (let i = 0; i < domains.length; i += BATCH_SIZE) {
+        const batch = domains.slice(i, i + BATCH_SIZE);
 
         await Promise.all(batch.map(async (domain) => {
             const start = Date.now();
             try {
-                const sessionId = Math.random().toString(36).substring(2, 10);
-                const browser = await chromium.launch({
-                    headless: true,
-                    proxy: {
-                        server: 'http://c36288e57056c2d5.byi.na.pyproxy.io:16666',
-                        username: `proxyming123-zone-resi-session-${sessionId}-sessTime-30`,
-                        password: 'G12345678'
-                    }
-                });
-
-                const page = await browser.newPage();
-
-                // 1. Check IP (lightweight validation)
-                await page.goto('https://api.ipify.org?format=json');
-                const ipJson = JSON.parse(await page.evaluate(() => document.body.innerText));
-
-                // 2. Simulate "Scrape" (Simple Nav)
-                // We use a lighter target than traffic.cv for the benchmark to rely solely on proxy speed, 
-                // to avoid getting the benchmark IP blocked by traffic.cv during a "test".
-                await page.goto(`http://${domain}`, { waitUntil: 'domcontentloaded', timeout: 30000 });
-
-                await browser.close();
-
-                const timeMs = Date.now() - start;
-                results.push({ domain, status: 'ok', timeMs, ip: ipJson.ip });
+                const ip = proxy.kind === 'worker'
+                    ? await checkViaWorker(proxy, domain)
+                    : await checkViaBrowser(proxy, domain);
+                results.push({ domain, status: 'ok', timeMs: Date.now() - start, ip });
                 process.stdout.write('✅'); // Tick
             } catch (e: any) {
-                const timeMs = Date.now() - start;
-                results.push({ domain, status: 'fail', timeMs, ip: 'unknown' });
+                results.push({ domain, status: 'fail', timeMs: Date.now() - start, ip: 'unknown' });
                 process.stdout.write('❌'); // Cross
             }
         }));
     }
 
-    const totalTime = (Date.now() - startTime) / 1000;
-    const successCount = results.filter(r => r.status === 'ok').length;
+    const ok = results.filter(r => r.status === 'ok');
+    const avgLatencyMs = ok.length > 0 ? ok.reduce((a, b) => a + b.timeMs, 0) / ok.length : null;
+    const uniqueIPs = new Set(ok.map(r => r.ip).filter(ip => ip !== 'unknown' && ip !== 'worker'));
 
-    console.log('\n\n📊 BENCHMARK RESULTS');
-    console.log('--------------------');
-    console.log(`Total Time: ${totalTime.toFixed(2)}s`);
-    console.log(`Success Rate: ${successCount}/${DOMAINS.length} (${((successCount / DOMAINS.length) * 100).toFixed(1)}%)`);
-    console.log(`Avg Request Time: ${(results.reduce((a, b) => a + b.timeMs, 0) / results.length / 1000).toFixed(2)}s`);
+    console.log(`\n   Total Time: ${((Date.now() - startTime) / 1000).toFixed(2)}s`);
+    console.log(`   Success Rate: ${ok.length}/${domains.length} (${((ok.length / domains.length) * 100).toFixed(1)}%)`);
+    console.log(`   Avg Request Time: ${avgLatencyMs !== null ? (avgLatencyMs / 1000).toFixed(2) + 's' : 'n/a'}`);
+    if (proxy.kind === 'http') {
+        console.log(`   Unique IPs Used: ${uniqueIPs.size}/${ok.length}`);
+    }
+
+    // Feed the pool: rotation weights and quarantine start from this run
+    recordProxyBenchmark(proxy, { attempts: domains.length, successes: ok.length, avgLatencyMs });
 
-    // Verify IP Rotation
-    const uniqueIPs = new Set(results.map(r => r.ip).filter(ip => ip !== 'unknown'));
-    console.log(`Unique IPs Used: ${uniqueIPs.size}/${successCount} (Should be near 100% for Randomize)`);
+    return { proxy: proxy.id, success: ok.length, avgLatencyMs };
+}
 
-    if (successCount === 30 && uniqueIPs.size > 20) {
-        console.log('\n✅ CONCLUSION: "Randomize IP" is working perfectly. High speed, distinct IPs.');
-    } else {
-        console.log('\n⚠️  CONCLUSION: Some issues detected.');
+async function benchmark() {
+    const only = getArg('--proxy');
+    const limit = parseInt(getArg('--limit') || String(DOMAINS.length), 10);
+    const domains = DOMAINS.slice(0, Math.max(1, limit));
+    const proxies = getConfiguredProxies().filter(proxy => !only || proxy.id === only);
+
+    if (proxies.length === 0) {
+        console.error(`No proxy matches ${only}. Configured: ${getConfiguredProxies().map(p => p.id).join(', ')}`);
+        process.exit(1);
     }
+
+    const summary = [];
+    for (const proxy of proxies) {
+        summary.push(await benchmarkProxy(proxy, domains));
+    }
+
+    console.log('\n\n📊 BENCHMARK RESULTS (saved to proxy_health)');
+    console.table(summary.map(s => ({
+        Proxy: s.proxy,
+        'Success Rate': `${s.success}/${domains.length}`,
+        'Avg Time (ms)': s.avgLatencyMs !== null ? Math.round(s.avgLatencyMs) : '-',
+    })));
 }
 
 benchmark();
@@ -1,5 +1,18 @@
+/**
+ * Head-to-head speed test of the browser proxies in the pool
+ * (e.g. a rotating and a `{session}` sticky entry of the same provider, plus direct).
+ * Results are folded into proxy_health like scripts/benchmark_proxy.ts.
+ *
+ * Usage: tsx scripts/compare_proxy_modes.ts
+ */
 
 import { chromium } from 'playwright';
+import {
+    getConfiguredProxies,
+    ProxyDefinition,
+    recordProxyBenchmark,
+    toPlaywrightProxy,
+} from '../lib/proxy-pool';
 
 const URLS = [
     'https://www.google.com',
@@ -9,22 +22,8 @@ const URLS = [
     'https://www.netflix.com'
 ];
 
-const PROXY_HOST = 'http://c36288e57056c2d5.byi.na.pyproxy.io:16666';
-const PASSWORD = 'G12345678';
-
-const CONFIGS = [
-    {
-        name: 'RANDOM (Rotating)',
-        username: 'proxyming123-zone-resi'
-    },
-    {
-        name: 'STICKY (Session)',
-        username: `proxyming123-zone-resi-session-${Math.random().toString(36).substring(2, 10)}-sessTime-30`
-    }
-];
-
-async function testConfig(config: typeof CONFIGS[0]) {
-    console.log(`\nTesting ${config.name}...`);
+async function testConfig(proxy: ProxyDefinition) {
+    console.log(`\nTesting ${proxy.id}...`);
     const times: number[] = [];
     let success = 0;
 
@@ -34,11 +33,7 @@ async function testConfig(config: typeof CONFIGS[0]) {
         try {
             browser = await chromium.launch({
                 headless: true,
-                proxy: {
-                    server: PROXY_HOST,
-                    username: config.username,
-                    password: PASSWORD
-                }
+                proxy: toPlaywrightProxy(proxy) ?? undefined,
             });
 
             const page = await browser.newPage();
@@ -57,26 +52,32 @@ async function testConfig(config: typeof CONFIGS[0]) {
     }
     console.log(' Done.');
 
-    if (times.length === 0) return { avg: 0, success: 0 };
-    const avg = times.reduce((a, b) => a + b, 0) / times.length;
+    const avg = times.length > 0 ? times.reduce((a, b) => a + b, 0) / times.length : null;
+    recordProxyBenchmark(proxy, { attempts: URLS.length, successes: success, avgLatencyMs: avg });
     return { avg, success };
 }
 
 async function run() {
     console.log('🏎️  Starting Head-to-Head Proxy Speed Test');
 
+    const proxies = getConfiguredProxies().filter(proxy => proxy.kind !== 'worker');
+    if (proxies.length === 0) {
+        console.error('No browser proxies configured (TL_PROXIES).');
+        process.exit(1);
+    }
+
     const results = [];
 
-    for (const config of CONFIGS) {
-        const result = await testConfig(config);
-        results.push({ ...config, ...result });
+    for (const proxy of proxies) {
+        const result = await testConfig(proxy);
+        results.push({ id: proxy.id, ...result });
     }
 
-    console.log('\n\n🏁 RESULTS');
+    console.log('\n\n🏁 RESULTS (saved to proxy_health)');
     console.table(results.map(r => ({
-        Mode: r.name,
+        Proxy: r.id,
         'Success Rate': `${r.success}/${URLS.length}`,
-        'Avg Time (ms)': Math.round(r.avg)
+        'Avg Time (ms)': r.avg !== null ? Math.round(r.avg) : '-'
     })));
 }
 
@@ -0,0 +1,103 @@
+/**
+ * TrafficLens Rank List Import
+ * ============================
+ * Loads a locally downloaded public rank list (Tranco format: `rank,domain` per line)
+ * into domain_ranks. The list is an offline secondary signal: it fills globalRank for
+ * domains traffic.cv returns no data for, so dead and merely long-tail domains can be told apart.
+ *
+ * Re-importing a list name replaces the previous import of that list. Entries are loaded
+ * under a staging name and swapped in at the end, so a failed import leaves the old list.
+ *
+ * Usage:
+ *   tsx scripts/import-rank-list.ts --file top-1m.csv [--list tranco] [--date 2026-10-01] [--limit 1000000]
+ */
+
+import fs from 'fs';
+import readline from 'readline';
+import { normalizeDomain } from '../lib/domain-utils';
+import { clearRankList, getRankListStagingName, promoteRankList, storeDomainRanks } from '../lib/db';
+
+const CHUNK_SIZE = 5000;
+
+function getArgString(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  if (index < 0 || index + 1 >= args.length) return undefined;
+  return args[index + 1];
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const file = getArgString(args, '--file');
+  const listName = getArgString(args, '--list') || 'tranco';
+  const listDate = getArgString(args, '--date') || null;
+  const limit = parseInt(getArgString(args, '--limit') || '0', 10) || Infinity;
+
+  if (!file || !fs.existsSync(file)) {
+    console.error('Usage: tsx scripts/import-rank-list.ts --file <rank,domain csv> [--list tranco] [--date YYYY-MM-DD] [--limit N]');
+    process.exit(1);
+  }
+
+  if (listDate && !/^\d{4}-\d{2}-\d{2}$/.test(listDate)) {
+    console.error(`[RankList] --date must be YYYY-MM-DD, got "${listDate}"`);
+    process.exit(1);
+  }
+
+  // Leftovers of an earlier import that didn't finish
+  const stagingName = getRankListStagingName(listName);
+  clearRankList(stagingName);
+
+  const lines = readline.createInterface({
+    input: fs.createReadStream(file, 'utf8'),
+    crlfDelay: Infinity,
+  });
+
+  let chunk: { domain: string; rank: number }[] = [];
+  let imported = 0;
+  let skipped = 0;
+
+  try {
+    for await (const line of lines) {
+      if (imported + chunk.length >= limit) break;
+
+      const [rankText, rawDomain] = line.split(',');
+      const rank = parseInt(rankText, 10);
+      const domain = rawDomain ? normalizeDomain(rawDomain) : '';
+
+      // Header rows and junk lines
+      if (!Number.isFinite(rank) || rank <= 0 || !domain) {
+        skipped++;
+        continue;
+      }
+
+      chunk.push({ domain, rank });
+      if (chunk.length >= CHUNK_SIZE) {
+        storeDomainRanks(stagingName, listDate, chunk);
+        imported += chunk.length;
+        chunk = [];
+        if (imported % 100000 === 0) {
+          console.log(`[RankList] ${imported} imported...`);
+        }
+      }
+    }
+
+    if (chunk.length > 0) {
+      storeDomainRanks(stagingName, listDate, chunk);
+      imported += chunk.length;
+    }
+  } catch (error) {
+    clearRankList(stagingName);
+    console.error(`[RankList] Import failed — the previous "${listName}" list is unchanged`);
+    throw error;
+  }
+
+  const removed = promoteRankList(listName);
+  if (removed > 0) {
+    console.log(`[RankList] Replaced ${removed} previous "${listName}" entries`);
+  }
+  console.log(`[RankList] Done — ${imported} "${listName}" entries imported, ${skipped} line(s) skipped`);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
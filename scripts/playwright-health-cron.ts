@@ -2,7 +2,12 @@
  * TrafficLens Playwright Health Monitor Cron
  * ============================================
  * Runs periodically to detect SIGTRAP / OOM crashes from Railway.
- * If detected, auto-triggers a Railway redeploy + sends an email alert.
+ * If detected, first recycles the browser pools (POST /api/browser-pool, needs
+ * TRAFFICLENS_ADMIN_KEY — standalone workers pick the request up on their next
+ * heartbeat) and re-probes; only if that doesn't help does it auto-trigger a
+ * Railway redeploy. Sends an email alert either way.
+ * Pools are read from /api/health: the web process's `browserPool` and each live
+ * worker's `workers[].stats.browserPool` (where Chromium runs with TL_WORKER_MODE=external).
  *
  * Cron: Every 15 minutes (set up via scripts/setup-health-cron.sh)
  * Usage: tsx scripts/playwright-health-cron.ts
@@ -27,6 +32,7 @@ const RAILWAY_ENVIRONMENT_ID = process.env.RAILWAY_ENVIRONMENT_ID || '';
 const RESEND_API_KEY = process.env.RESEND_API_KEY || '';
 const EMAIL_TO = process.env.EMAIL_TO || '';
 const EMAIL_FROM = process.env.EMAIL_FROM || 'alerts@resend.dev';
+const ADMIN_KEY = process.env.TRAFFICLENS_ADMIN_KEY || '';
 
 // Probe domains (well-known, high-traffic sites for reliability)
 const PROBE_DOMAINS = ['amazon.com', 'google.com', 'netflix.com'];
@@ -119,6 +125,79 @@ async function probe(): Promise<{ ok: boolean; details: string }> {
     }
 }
 
+interface BrowserPoolHealth {
+    healthy: boolean;
+    browsers: { id: string; rssMb: number | null; pagesServed: number; activeContexts: number }[];
+    config: { maxRssMb: number };
+    lastLaunchError: { message: string; at: string } | null;
+}
+
+/**
+ * Browser pools by owner: the web process, plus every live standalone worker
+ */
+async function getBrowserPoolHealth(): Promise<{ owner: string; pool: BrowserPoolHealth }[]> {
+    try {
+        const resp = await fetch(`${RAILWAY_URL}/api/health`, { signal: AbortSignal.timeout(10000) });
+        if (!resp.ok) return [];
+        const data = await resp.json() as any;
+
+        const pools: { owner: string; pool: BrowserPoolHealth }[] = [];
+        if (data.browserPool) pools.push({ owner: 'web', pool: data.browserPool });
+        for (const worker of data.workers ?? []) {
+            if (worker.alive && worker.mode === 'standalone' && worker.stats?.browserPool) {
+                pools.push({ owner: `worker ${worker.workerId}`, pool: worker.stats.browserPool });
+            }
+        }
+        return pools;
+    } catch (err: any) {
+        log(`⚠️  Could not read /api/health: ${err.message}`);
+        return [];
+    }
+}
+
+/**
+ * Describe what's wrong with the pool, or null if it looks fine
+ */
+function browserPoolProblem(pool: BrowserPoolHealth): string | null {
+    if (!pool.healthy) {
+        return `Browser pool cannot launch Chromium: ${pool.lastLaunchError?.message ?? 'unknown error'}`;
+    }
+    const bloated = pool.browsers.filter(b => b.rssMb !== null && b.rssMb > pool.config.maxRssMb);
+    if (bloated.length > 0) {
+        return `Browser(s) over ${pool.config.maxRssMb} MB: ${bloated.map(b => `${b.id}=${b.rssMb}MB`).join(', ')}`;
+    }
+    return null;
+}
+
+async function recycleBrowserPool(): Promise<boolean> {
+    if (!ADMIN_KEY) {
+        log('⚠️  TRAFFICLENS_ADMIN_KEY not set — cannot recycle the browser pool.');
+        return false;
+    }
+
+    try {
+        const resp = await fetch(`${RAILWAY_URL}/api/browser-pool`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                'x-trafficlens-admin-key': ADMIN_KEY,
+            },
+            body: JSON.stringify({ action: 'recycle' }),
+            signal: AbortSignal.timeout(15000),
+        });
+        if (!resp.ok) {
+            log(`❌ Browser pool recycle failed: HTTP ${resp.status}`);
+            return false;
+        }
+        const data = await resp.json() as any;
+        log(`♻️  Browser pool recycled (${data.retired} browser(s) retired, ${data.workersSignalled ?? 0} worker(s) asked).`);
+        return true;
+    } catch (err: any) {
+        log(`❌ Browser pool recycle failed: ${err.message}`);
+        return false;
+    }
+}
+
 async function triggerRailwayRedeploy(): Promise<boolean> {
     if (!RAILWAY_TOKEN || !RAILWAY_SERVICE_ID || !RAILWAY_ENVIRONMENT_ID) {
         log('⚠️  RAILWAY_API_TOKEN / SERVICE_ID / ENVIRONMENT_ID not set — cannot auto-redeploy.');
@@ -195,7 +274,19 @@ async function sendAlert(subject: string, body: string) {
 async function main() {
     log('=== TrafficLens Playwright Health Check ===');
 
-    const { ok, details } = await probe();
+    // Pool stats catch a bloated or wedged browser before a scrape fails on it
+    const poolProblems = (await getBrowserPoolHealth())
+        .map(({ owner, pool }) => {
+            const problem = browserPoolProblem(pool);
+            return problem ? `${owner}: ${problem}` : null;
+        })
+        .filter((problem): problem is string => problem !== null);
+    if (poolProblems.length > 0) {
+        poolProblems.forEach(problem => log(`⚠️  ${problem}`));
+        await recycleBrowserPool();
+    }
+
+    let { ok, details } = await probe();
 
     if (ok) {
         log(`✅ Health check PASSED: ${details}`);
@@ -205,7 +296,22 @@ async function main() {
     log(`❌ Health check FAILED: ${details}`);
 
     // Determine if it's a SIGTRAP crash
-    const isCrash = isSigtrap(details);
+    let isCrash = isSigtrap(details);
+
+    // A wedged browser is usually fixed by recycling the pool — far cheaper than a redeploy
+    if (isCrash && await recycleBrowserPool()) {
+        ({ ok, details } = await probe());
+        if (ok) {
+            log(`✅ Recovered by recycling the browser pool: ${details}`);
+            await sendAlert(
+                '♻️ TrafficLens: Browser Pool Recycled',
+                `Playwright crash detected and recovered by recycling the browser pool (no redeploy).\n\nDetails:\n${details}`
+            );
+            return;
+        }
+        log(`❌ Still failing after recycle: ${details}`);
+        isCrash = isSigtrap(details);
+    }
 
     if (isCrash) {
         log('🚨 SIGTRAP/pthread_create crash detected — Railway container is out of threads!');
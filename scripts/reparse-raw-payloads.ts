@@ -0,0 +1,105 @@
+/**
+ * TrafficLens Raw Payload Re-parse
+ * ================================
+ * Replays archived traffic.cv pages (raw_payloads) through the current parser and
+ * rewrites traffic_snapshots / traffic_latest, so a parser fix can be applied to
+ * past fetches without hitting traffic.cv again.
+ *
+ * Each payload is stored under the month it was fetched in. traffic_latest is only
+ * replaced by a domain's newest payload, and only if nothing newer was stored since.
+ *
+ * Usage:
+ *   tsx scripts/reparse-raw-payloads.ts [--domain example.com] [--since 2026-01-01] [--dry-run]
+ */
+
+import { normalizeDomain } from '../lib/domain-utils';
+import { parseTrafficCvHtml } from '../lib/trafficcv-fetch';
+import {
+  getLatestTrafficData,
+  getMonthForTimestamp,
+  listRawPayloads,
+  readRawPayload,
+  storeHistoricalTrafficData,
+  storeTrafficDataForMonth,
+  storeTrafficDataWithHistory,
+  RawPayloadRef,
+} from '../lib/db';
+
+function getArgString(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  if (index < 0 || index + 1 >= args.length) return undefined;
+  return args[index + 1];
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const domainArg = getArgString(args, '--domain');
+  const since = getArgString(args, '--since');
+  const dryRun = args.includes('--dry-run');
+
+  const refs = listRawPayloads({
+    domain: domainArg ? normalizeDomain(domainArg) : undefined,
+    since,
+  });
+  console.log(`[Reparse] ${refs.length} archived payload(s)`);
+
+  // Refs come back oldest first per domain; the last one per domain may refresh traffic_latest
+  const newestByDomain = new Map<string, RawPayloadRef>();
+  for (const ref of refs) newestByDomain.set(ref.domain, ref);
+
+  let parsed = 0;
+  let latestUpdated = 0;
+  let failed = 0;
+
+  for (const ref of refs) {
+    const html = readRawPayload(ref.id);
+    if (!html) continue;
+
+    let data;
+    try {
+      // Stamped with the original fetch time, not now
+      data = parseTrafficCvHtml(ref.domain, html, ref.fetchedAt);
+    } catch (error) {
+      failed++;
+      console.warn(`[Reparse] #${ref.id} ${ref.domain}: ${error instanceof Error ? error.message : error}`);
+      continue;
+    }
+
+    if (data.error) {
+      failed++;
+      console.warn(`[Reparse] #${ref.id} ${ref.domain}: ${data.error}`);
+      continue;
+    }
+
+    const monthYear = getMonthForTimestamp(ref.fetchedAt);
+    parsed++;
+
+    if (dryRun) {
+      console.log(`[Reparse] #${ref.id} ${ref.domain} ${monthYear}: ${data.monthlyVisits ?? 'n/a'} visits`);
+      continue;
+    }
+
+    const current = getLatestTrafficData(ref.domain);
+    const isNewest = newestByDomain.get(ref.domain)?.id === ref.id;
+    const supersedesLatest = !current?.checkedAt || current.checkedAt <= ref.fetchedAt;
+
+    if (isNewest && supersedesLatest) {
+      storeTrafficDataWithHistory(data, monthYear);
+      latestUpdated++;
+    } else {
+      storeTrafficDataForMonth(data, monthYear);
+      if (data.historicalMonths && data.historicalMonths.length > 0) {
+        storeHistoricalTrafficData(data.domain, data.historicalMonths, data);
+      }
+    }
+  }
+
+  console.log(
+    `[Reparse] Done — ${parsed} parsed, ${latestUpdated} latest row(s) refreshed, ${failed} failed${dryRun ? ' (dry run)' : ''}`
+  );
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
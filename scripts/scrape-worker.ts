@@ -0,0 +1,53 @@
+/**
+ * TrafficLens Scrape Worker
+ * =========================
+ * Consumes the durable scrape queue in its own process, so Playwright memory spikes
+ * can't take the web server down with them. Leases batches from scrape_tasks, runs
+ * them through the provider chain, stores results via lib/db.ts and beats into
+ * worker_heartbeats. Needs the same DATABASE_PATH as the web process.
+ *
+ * Run the web tier with TL_WORKER_MODE=external so it only enqueues and reads.
+ * Without it both processes lease from the same queue, which is fine too (dev).
+ *
+ * Usage:
+ *   tsx scripts/scrape-worker.ts        (npm run worker)
+ */
+
+import { closeBrowserPool } from '../lib/browser-pool';
+import { startQueueWorker, stopQueueWorker } from '../lib/queue-worker';
+
+/** Hard stop if a shutdown hangs (e.g. a browser that won't close) */
+const SHUTDOWN_TIMEOUT_MS = 30000;
+
+let shuttingDown = false;
+
+async function shutdown(signal: string) {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  console.log(`[Worker] ${signal} received, handing in-flight batches back to the queue...`);
+
+  const forceExit = setTimeout(() => {
+    console.error('[Worker] Shutdown timed out');
+    process.exit(1);
+  }, SHUTDOWN_TIMEOUT_MS);
+  forceExit.unref();
+
+  try {
+    await stopQueueWorker();
+    await closeBrowserPool();
+    process.exit(0);
+  } catch (error) {
+    console.error('[Worker] Shutdown failed:', error);
+    process.exit(1);
+  }
+}
+
+function main() {
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+  process.on('SIGINT', () => shutdown('SIGINT'));
+
+  console.log(`[Worker] Scrape worker starting (pid ${process.pid})`);
+  startQueueWorker({ standalone: true });
+}
+
+main();
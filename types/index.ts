@@ -2,6 +2,100 @@
  * Type definitions for Traffic Bulk Extractor
  */
 
+/**
+ * Share of a domain's visits coming from one country (traffic.cv "Top Countries")
+ */
+export interface CountryShare {
+  countryCode: string;
+  countryName: string | null;
+  share: number; // Percentage (0-100)
+}
+
+/**
+ * Organic search keyword driving traffic to a domain (traffic.cv "Top Keywords")
+ */
+export interface KeywordEntry {
+  keyword: string;
+  share: number | null; // Percentage of search traffic (0-100)
+  volume: number | null; // Monthly search volume
+  cpc: number | null; // Cost per click (USD)
+}
+
+/**
+ * Registration details for a domain (traffic.cv WHOIS block)
+ */
+export interface DomainProfile {
+  registrar: string | null;
+  createdAt: string | null; // YYYY-MM-DD
+  expiresAt: string | null; // YYYY-MM-DD
+  ageDays: number | null;
+}
+
+/**
+ * Position of a domain in an imported public rank list (Tranco-style CSV)
+ */
+export interface DomainRank {
+  rank: number;
+  listName: string; // e.g. "tranco"
+  listDate: string | null; // YYYY-MM-DD the list was published
+}
+
+/**
+ * Interval around a rank-based visits estimate (lib/rank-estimator.ts)
+ */
+export interface VisitsEstimate {
+  low: number;
+  high: number;
+  level: number; // e.g. 0.9 for a 90% interval
+  fitPoints: number; // Domains the rank→visits curve was fitted on
+}
+
+/**
+ * Metric two providers disagreed on beyond the reconcile tolerance (lib/reconcile.ts)
+ */
+export interface ReconcileConflict {
+  field: string;
+  values: { provider: string; value: number }[];
+}
+
+/**
+ * Visits for one calendar month of a domain's history
+ */
+export interface HistoricalMonth {
+  monthYear: string; // YYYY-MM
+  monthlyVisits: number | null;
+}
+
+/**
+ * Traffic source split for one month (percentages, 0-100)
+ */
+export interface SourceMixPoint {
+  monthYear: string; // YYYY-MM
+  search: number | null;
+  direct: number | null;
+  social: number | null;
+  mail: number | null;
+  referrals: number | null;
+  display: number | null;
+  other: number | null;
+}
+
+/**
+ * Analyst-entered numbers for a domain/month that take precedence over scraped values
+ */
+export interface TrafficOverride {
+  domain: string;
+  monthYear: string; // YYYY-MM
+  monthlyVisits: number | null; // null = keep scraped value
+  avgSessionDurationSeconds: number | null;
+  bounceRate: number | null;
+  pagesPerVisit: number | null;
+  globalRank: number | null;
+  note: string | null;
+  author: string | null;
+  updatedAt: string | null;
+}
+
 export interface TrafficData {
   domain: string;
   monthlyVisits: number | null;
@@ -9,8 +103,24 @@ export interface TrafficData {
   avgSessionDurationSeconds: number | null;
   bounceRate: number | null;
   pagesPerVisit: number | null;
+  globalRank?: number | null;
+  countryRank?: number | null;
+  rankSource?: string | null; // "traffic.cv" or the rank list globalRank came from
   checkedAt: string | null;
   trafficSources?: Record<string, number> | null;
+  topCountries?: CountryShare[] | null;
+  topKeywords?: KeywordEntry[] | null;
+  domainProfile?: DomainProfile | null;
+  historicalMonths?: HistoricalMonth[];
+  provider?: string | null; // Which TrafficProvider produced the row (lib/providers)
+  estimated?: boolean; // monthlyVisits is a rank-based estimate, never stored
+  visitsEstimate?: VisitsEstimate | null;
+  confidence?: number | null; // 0-1, from cross-provider reconciliation
+  fieldConfidence?: Record<string, number>;
+  conflicts?: ReconcileConflict[];
+  source?: 'manual' | null; // Set when an override replaced scraped metrics
+  overriddenFields?: string[];
+  annotation?: string | null; // Analyst note from the override
   error: string | null;
 }
 
@@ -23,5 +133,62 @@ export interface TrafficResponse {
     cacheMisses: number;
     errors: string[];
     backgroundScraping?: boolean;
+    jobId?: string; // Durable scrape job for the deferred domains (GET /api/jobs/:id)
   };
 }
+
+export type JobBatchStatus = 'queued' | 'running' | 'retrying' | 'paused' | 'cancelled' | 'completed';
+
+/**
+ * One leased batch of a scrape job (GET /api/jobs/:id)
+ */
+export interface JobBatchProgress {
+  index: number;
+  status: JobBatchStatus;
+  domains: number;
+  completed: number;
+  failed: number;
+  pending: number;
+  running: number;
+  cancelled: number;
+  attempts: number; // Highest attempt count among the batch's tasks
+  startedAt: string | null;
+  finishedAt: string | null;
+  durationMs: number | null;
+}
+
+export interface JobProgress {
+  id: string;
+  kind: string;
+  priority: 'interactive' | 'bulk' | 'maintenance';
+  status: 'queued' | 'running' | 'paused' | 'cancelled' | 'completed';
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  elapsedMs: number | null;
+  etaMs: number | null; // Rough estimate from the average finished batch
+  totals: {
+    domains: number;
+    completed: number;
+    failed: number;
+    pending: number;
+    running: number;
+    cancelled: number;
+  };
+  batches: JobBatchProgress[];
+}
+
+/**
+ * Named, persistent list of domains (GET /api/watchlists)
+ */
+export interface Watchlist {
+  id: string;
+  name: string;
+  owner: string | null;
+  tags: string[];
+  domains: string[]; // Normalized, in the order they were saved
+  createdAt: string;
+  updatedAt: string;
+  lastRefreshAt: string | null; // When the monthly refresh last queued stale domains
+  lastRefreshJobId: string | null;
+}